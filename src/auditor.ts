@@ -0,0 +1,1014 @@
+import type { Client } from 'pg';
+import { applyExceptions, exceptionFindings, type FindingException } from './exceptions.js';
+import { exposedSchemaFindings, type ApiSettings } from './exposure.js';
+import { routineKind, type Finding, type ObjectKind } from './findings.js';
+import { RoleSession, withRole, type JwtClaims } from './impersonation.js';
+import {
+  effectivePrivilegeFindings,
+  effectivePrivilegesQuery,
+  missingPrivilegeFindings,
+  missingPrivilegesQuery,
+  objectTypes,
+  policyCommands,
+  zoneObjects,
+  type EffectivePrivilegeRow,
+  type MissingPrivilegeRow,
+  type PrivilegeTarget,
+  type ZoneObjectType,
+} from './privileges.js';
+import { runRule, type Rule } from './rules.js';
+import { diffSnapshots, takeSnapshot, type SecuritySnapshot } from './snapshot.js';
+import { parseSearchPath, qualify, quoteIdent, quoteRole } from './sql.js';
+import { zoneOwner, zonePrivileges, zoneRoles, type ZoneConfig } from './zones.js';
+
+// Compares the roles found in the database with the roles that are expected.
+function compareRoles(actual:string[], expected:string[]) {
+  return {
+    missing: expected.filter(r => !actual.includes(r)),
+    extra: actual.filter(r => !expected.includes(r)),
+  };
+}
+
+// The checks in this class only read the catalog and return findings; they never
+// throw for a failed check, so they can be used outside of a test runner.
+export class SupabaseAuditor {
+  protected client: Client;
+  // Accepted findings, see exceptions.ts. auditZones leaves them out.
+  protected exceptions: FindingException[];
+  // The exceptions that have covered a finding so far
+  protected usedExceptions = new Set<FindingException>();
+  // Custom rules, see rules.ts. auditZones runs them in every zone.
+  protected rules: Rule[];
+
+  constructor(client: Client, options:{ exceptions?:FindingException[], rules?:Rule[] } = {}) {
+    this.client = client;
+    this.exceptions = options.exceptions ?? [];
+    this.rules = [...options.rules ?? []];
+  }
+
+  // Rules are identified by their id, so registering a rule again replaces it.
+  registerRule(rule:Rule) {
+    this.rules = [...this.rules.filter(r => r.id !== rule.id), rule];
+  }
+
+  async setup() {
+    await this.client.connect();
+  }
+
+  async teardown() {
+    await this.client.end();
+  }
+
+  // Runs fn as the role, like a PostgREST request with the given JWT claims, in a
+  // transaction that is always rolled back.
+  async asRole<T>(role:string, claims:JwtClaims, fn:(session:RoleSession) => Promise<T>):Promise<T> {
+    return withRole(this.client, new RoleSession(this.client, role), claims, fn);
+  }
+
+  async checkRLSEnabledForTablesAndMaterializedViews(schema:string):Promise<Finding[]> {
+    // This SQL query selects the names of tables in the schema where RLS is NOT enabled.
+    // Note: Regular views (relkind = 'v') cannot have RLS; they only respect the RLS of their base
+    // tables when they are security_invoker, see checkViewsAreSecurityInvoker.
+    // Note: Materialized views (relkind = 'm') cannot have RLS enabled - it's not supported in PostgreSQL,
+    // see checkNoExposedMaterializedViews.
+    const query = `
+      SELECT
+        c.relname AS table_name
+      FROM
+        pg_catalog.pg_class c
+      JOIN
+        pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE
+        n.nspname = $1
+        AND c.relkind = 'r'
+        AND c.relrowsecurity IS FALSE;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { table_name: string }[] };
+    return res.rows.map(row => ({
+      rule: 'rls-disabled',
+      severity: 'error',
+      schema,
+      object: row.table_name,
+      kind: 'table',
+      message: `Table "${schema}.${row.table_name}" does not have RLS enabled`,
+      fix: `ALTER TABLE ${qualify(schema, row.table_name)} ENABLE ROW LEVEL SECURITY;`,
+    }));
+  }
+
+  async checkNoSecurityDefinersRoutines(schema:string):Promise<Finding[]> {
+    const query = `
+      SELECT p.proname AS routine_name, p.prokind, pg_get_function_identity_arguments(p.oid) AS args
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = $1
+      AND p.prosecdef;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { routine_name: string, prokind: string, args: string }[] };
+    return res.rows.map(row => ({
+      rule: 'security-definer',
+      severity: 'error',
+      schema,
+      object: row.routine_name,
+      kind: routineKind(row.prokind),
+      message: `Routine "${schema}.${row.routine_name}" is SECURITY DEFINER`,
+      fix: `ALTER ${routineKind(row.prokind).toUpperCase()} ${qualify(schema, row.routine_name)}(${row.args}) SECURITY INVOKER;`,
+    }));
+  }
+
+  async checkSecurityDefinerSearchPath(schema:string):Promise<Finding[]> {
+    // A SECURITY DEFINER routine resolves unqualified names through the caller's
+    // search_path unless it pins its own, so anyone who can create objects in a
+    // schema on that path can run code with the owner's privileges.
+    const query = `
+      SELECT
+        p.proname AS routine_name,
+        p.prokind,
+        pg_get_function_identity_arguments(p.oid) AS args,
+        o.rolname AS owner,
+        o.rolsuper AS superuser,
+        o.rolbypassrls AS bypassrls,
+        (SELECT substr(c, length('search_path=') + 1) FROM unnest(p.proconfig) AS c WHERE c LIKE 'search_path=%') AS search_path
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      JOIN pg_catalog.pg_roles o ON o.oid = p.proowner
+      WHERE n.nspname = $1
+        AND p.prosecdef
+      ORDER BY p.proname, args;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { routine_name:string, prokind:string, args:string, owner:string, superuser:boolean, bypassrls:boolean, search_path:string | null }[] };
+
+    // Schemas in which roles other than superusers and the routine owner (or its
+    // members, who can act as the owner anyway) can create objects
+    const writersQuery = `
+      SELECT n.nspname AS schema, array_agg(r.rolname ORDER BY r.rolname) AS writers
+      FROM pg_catalog.pg_namespace n
+      CROSS JOIN pg_catalog.pg_roles r
+      WHERE n.nspname = ANY($1)
+        AND NOT r.rolsuper
+        AND NOT pg_has_role(r.oid, (SELECT oid FROM pg_catalog.pg_roles WHERE rolname = $2), 'MEMBER')
+        AND has_schema_privilege(r.oid, n.oid, 'CREATE')
+      GROUP BY n.nspname;
+    `;
+
+    const findings:Finding[] = [];
+    for (const row of res.rows) {
+      const kind = routineKind(row.prokind);
+      const name = `${qualify(schema, row.routine_name)}(${row.args})`;
+      const base = { severity: 'error', schema, object: row.routine_name, kind } as const;
+      const fix = `ALTER ${kind.toUpperCase()} ${name} SET search_path = '';`;
+
+      if (row.search_path === null) {
+        findings.push({
+          ...base,
+          rule: 'definer-search-path-not-set',
+          message: `SECURITY DEFINER ${kind} "${schema}.${row.routine_name}" does not set search_path, so it uses the caller's`,
+          fix,
+        });
+      } else {
+        const path = parseSearchPath(row.search_path);
+        const writable = await this.client.query(writersQuery, [path, row.owner]) as { rows: { schema:string, writers:string[] }[] };
+        const problems = [
+          ...path.includes('public') ? ['"public"'] : [],
+          ...path.includes('$user') ? ['"$user"'] : [],
+          ...writable.rows
+            .filter(w => w.schema !== 'public')
+            .map(w => `"${w.schema}" (writable by ${w.writers.map(r => `"${r}"`).join(', ')})`),
+        ];
+        if (problems.length) {
+          findings.push({
+            ...base,
+            rule: 'definer-search-path-unsafe',
+            message: `SECURITY DEFINER ${kind} "${schema}.${row.routine_name}" has an unsafe search_path "${path.join(', ')}": ${problems.join(', ')}`,
+            fix,
+          });
+        }
+      }
+
+      if (row.superuser || row.bypassrls) {
+        findings.push({
+          ...base,
+          rule: 'definer-owner-privileged',
+          severity: 'warning',
+          grantee: row.owner,
+          message: `SECURITY DEFINER ${kind} "${schema}.${row.routine_name}" runs as "${row.owner}", which ${row.superuser ? 'is a superuser' : 'bypasses RLS'}`,
+        });
+      }
+    }
+    return findings;
+  }
+
+  async checkViewsAreSecurityInvoker(schema:string, allowed:string[] = []):Promise<Finding[]> {
+    // A view without security_invoker runs with the privileges of its owner, so it
+    // bypasses the RLS of its base tables (unless the owner is subject to it).
+    const query = `
+      SELECT c.relname AS view_name
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+        AND c.relkind = 'v'
+        AND NOT EXISTS (
+          SELECT 1 FROM unnest(c.reloptions) AS o
+          WHERE lower(o) IN ('security_invoker=true', 'security_invoker=on', 'security_invoker=1', 'security_invoker=yes')
+        )
+      ORDER BY c.relname;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { view_name: string }[] };
+    return res.rows
+      .filter(row => !allowed.includes(row.view_name))
+      .map(row => ({
+        rule: 'view-security-definer',
+        severity: 'error',
+        schema,
+        object: row.view_name,
+        kind: 'view',
+        message: `View "${schema}.${row.view_name}" is not security_invoker, so it bypasses RLS on its tables`,
+        fix: `ALTER VIEW ${qualify(schema, row.view_name)} SET (security_invoker = true);`,
+      }));
+  }
+
+  async checkNoExposedMaterializedViews(schema:string, roles:string[], allowed:string[] = []):Promise<Finding[]> {
+    // Materialized views cannot have RLS, so anyone who can select from one sees every row.
+    const query = `
+      SELECT c.relname AS view_name, r.rolname AS grantee
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      CROSS JOIN pg_catalog.pg_roles r
+      WHERE n.nspname = $1
+        AND c.relkind = 'm'
+        AND r.rolname = ANY($2)
+        AND has_table_privilege(r.oid, c.oid, 'SELECT')
+      ORDER BY c.relname, r.rolname;
+    `;
+    const res = await this.client.query(query, [schema, roles]) as { rows: { view_name: string, grantee: string }[] };
+    return res.rows
+      .filter(row => !allowed.includes(row.view_name))
+      .map(row => ({
+        rule: 'materialized-view-exposed',
+        severity: 'error',
+        schema,
+        object: row.view_name,
+        kind: 'materialized view',
+        grantee: row.grantee,
+        privilege: 'SELECT',
+        message: `Materialized view "${schema}.${row.view_name}" can be read by "${row.grantee}" and cannot have RLS`,
+        fix: `REVOKE SELECT ON TABLE ${qualify(schema, row.view_name)} FROM ${quoteRole(row.grantee)};`,
+      }));
+  }
+
+  // Every role in `roles` must have USAGE on the schema; `tolerated` roles may
+  // have it too, such as platform roles, but are not required to.
+  async checkAccessToSchema(schema:string, roles:string[], tolerated:string[] = []):Promise<Finding[]> {
+    const query = `
+      SELECT rolname
+      FROM pg_roles
+      WHERE has_schema_privilege(rolname, $1, 'USAGE')
+      ORDER BY rolname ASC;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { rolname: string }[] };
+    const { missing, extra } = compareRoles(res.rows.map(row => row.rolname).filter(role => !tolerated.includes(role)), roles);
+    return [
+      ...missing.map((grantee):Finding => ({
+        rule: 'schema-usage-missing',
+        severity: 'error',
+        schema,
+        object: schema,
+        kind: 'schema',
+        grantee,
+        privilege: 'USAGE',
+        message: `Role "${grantee}" does not have USAGE on schema "${schema}"`,
+        fix: `GRANT USAGE ON SCHEMA ${quoteIdent(schema)} TO ${quoteRole(grantee)};`,
+      })),
+      ...extra.map((grantee):Finding => ({
+        rule: 'schema-usage-extra',
+        severity: 'error',
+        schema,
+        object: schema,
+        kind: 'schema',
+        grantee,
+        privilege: 'USAGE',
+        message: `Role "${grantee}" has USAGE on schema "${schema}" but is not allowed in the zone`,
+        fix: `REVOKE USAGE ON SCHEMA ${quoteIdent(schema)} FROM ${quoteRole(grantee)};`,
+      })),
+    ];
+  }
+
+  async checkDefaultPrivilegesForTables(schema:string, roles:string[], owner = 'postgres'):Promise<Finding[]> {
+    return this.checkDefaultPrivileges('table', schema, roles, owner);
+  }
+
+  async checkDefaultPrivilegesForSequences(schema:string, roles:string[], owner = 'postgres'):Promise<Finding[]> {
+    return this.checkDefaultPrivileges('sequence', schema, roles, owner);
+  }
+
+  async checkDefaultPrivilegesForTypes(schema:string, roles:string[], owner = 'postgres'):Promise<Finding[]> {
+    return this.checkDefaultPrivileges('type', schema, roles, owner);
+  }
+
+  // Effective privileges, including those held through role membership and PUBLIC.
+  async checkNoTablesWithExtraRoles(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkEffectivePrivileges('table', schema, roles);
+  }
+
+  async checkNoSequencesWithExtraRoles(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkEffectivePrivileges('sequence', schema, roles);
+  }
+
+  async checkNoColumnsWithExtraRoles(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkEffectivePrivileges('column', schema, roles);
+  }
+
+  async checkDefaultPrivilegesForRoutines(schema:string, roles:string[], owner = 'postgres'):Promise<Finding[]> {
+    return this.checkDefaultPrivileges('routine', schema, roles, owner);
+  }
+
+  async checkNoRoutinesWithExtraRoles(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkEffectivePrivileges('routine', schema, roles);
+  }
+
+  async checkNoTypesWithExtraRoles(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkEffectivePrivileges('type', schema, roles);
+  }
+
+  // Every role of the zone should have the full privilege set (zonePrivileges) on
+  // every existing object, not only on objects created after the default privileges.
+  async checkTablePrivileges(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkMissingPrivileges('table', schema, roles);
+  }
+
+  async checkSequencePrivileges(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkMissingPrivileges('sequence', schema, roles);
+  }
+
+  async checkRoutinePrivileges(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkMissingPrivileges('routine', schema, roles);
+  }
+
+  async checkTypePrivileges(schema:string, roles:string[]):Promise<Finding[]> {
+    return this.checkMissingPrivileges('type', schema, roles);
+  }
+
+  async checkRLSPolicies(schema:string, roles:string[], options:{ requireForceRLS?:boolean } = {}):Promise<Finding[]> {
+    // Every policy of every table with RLS enabled; tables without policies have
+    // a single row with NULL policy columns.
+    const query = `
+      SELECT
+        c.relname AS table_name,
+        c.relforcerowsecurity AS forced,
+        pol.polname AS policy_name,
+        pol.polcmd AS command,
+        pol.polpermissive AS permissive,
+        ARRAY(
+          SELECT CASE WHEN r = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(r) END
+          FROM unnest(pol.polroles) AS r
+          ORDER BY 1
+        ) AS roles,
+        pg_get_expr(pol.polqual, pol.polrelid) AS using_expr,
+        pg_get_expr(pol.polwithcheck, pol.polrelid) AS check_expr
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_catalog.pg_policy pol ON pol.polrelid = c.oid
+      WHERE n.nspname = $1
+        AND c.relkind IN ('r', 'p')
+        AND c.relrowsecurity
+      ORDER BY c.relname, pol.polname;
+    `;
+    type PolicyRow = {
+      table_name: string,
+      forced: boolean,
+      policy_name: string | null,
+      command: string | null,
+      permissive: boolean | null,
+      roles: string[] | null,
+      using_expr: string | null,
+      check_expr: string | null,
+    };
+    const res = await this.client.query(query, [schema]) as { rows: PolicyRow[] };
+
+    const findings:Finding[] = [];
+    const zoneRoles = new Set(roles);
+    const forcedChecked = new Set<string>();
+    for (const row of res.rows) {
+      const table = qualify(schema, row.table_name);
+      const base = { schema, object: row.table_name, kind: 'table' } as const;
+
+      if (options.requireForceRLS && !row.forced && !forcedChecked.has(row.table_name)) {
+        forcedChecked.add(row.table_name);
+        findings.push({
+          ...base,
+          rule: 'rls-not-forced',
+          severity: 'warning',
+          message: `Table "${schema}.${row.table_name}" does not FORCE ROW LEVEL SECURITY, so its owner bypasses the policies`,
+          fix: `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY;`,
+        });
+      }
+
+      if (row.policy_name === null || row.command === null) {
+        findings.push({
+          ...base,
+          rule: 'rls-no-policies',
+          severity: 'warning',
+          message: `Table "${schema}.${row.table_name}" has RLS enabled but no policies, so only its owner can access it`,
+        });
+        continue;
+      }
+
+      const command = policyCommands[row.command]!;
+      const policy = `Policy "${row.policy_name}" on "${schema}.${row.table_name}"`;
+      const policyRoles = row.roles ?? [];
+
+      // A permissive policy whose expression is literally true does not restrict anything
+      const expression = row.command === 'a' ? row.check_expr : row.using_expr;
+      if (row.permissive && expression === 'true') {
+        for (const grantee of policyRoles) {
+          findings.push({
+            ...base,
+            rule: 'policy-always-true',
+            severity: command === 'SELECT' ? 'warning' : 'error',
+            grantee,
+            privilege: command,
+            message: `${policy} allows ${command} on every row to "${grantee}"`,
+          });
+        }
+      }
+
+      if ((command === 'INSERT' || command === 'UPDATE') && row.check_expr === null) {
+        findings.push({
+          ...base,
+          rule: 'policy-missing-with-check',
+          severity: 'warning',
+          privilege: command,
+          message: `${policy} applies to ${command} but has no WITH CHECK expression`,
+          ...(row.using_expr !== null ? { fix: `ALTER POLICY ${quoteIdent(row.policy_name)} ON ${table} WITH CHECK (${row.using_expr});` } : {}),
+        });
+      }
+
+      for (const grantee of policyRoles.filter(r => r !== 'PUBLIC' && !zoneRoles.has(r))) {
+        findings.push({
+          ...base,
+          rule: 'policy-role-outside-zone',
+          severity: 'warning',
+          grantee,
+          privilege: command,
+          message: `${policy} applies to "${grantee}", which is not a role of the "${schema}" zone`,
+        });
+      }
+    }
+    return findings;
+  }
+
+  async checkObjectOwnership(schema:string, owner = 'postgres'):Promise<Finding[]> {
+    // Default privileges only apply to objects created by the role they are defined
+    // FOR, so an object owned by another role (e.g. supabase_admin, when created in
+    // the Dashboard) misses them. Objects that belong to extensions are skipped.
+    const query = `
+      SELECT c.relname AS name, 'class:' || c.relkind AS type, NULL AS args, pg_get_userbyid(c.relowner) AS owner
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'S')
+        AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+      UNION ALL
+      SELECT p.proname, 'proc:' || p.prokind, pg_get_function_identity_arguments(p.oid), pg_get_userbyid(p.proowner)
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = $1
+        AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+      UNION ALL
+      SELECT t.typname, 'type:' || t.typtype, NULL, pg_get_userbyid(t.typowner)
+      FROM pg_catalog.pg_type t
+      JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = $1
+        AND t.typtype IN ('c', 'd', 'e', 'r')
+        AND (t.typrelid = 0 OR (SELECT c.relkind FROM pg_catalog.pg_class c WHERE c.oid = t.typrelid) = 'c')
+        AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e')
+      ORDER BY name;
+    `;
+    // Grouped by the kind of object (pg_default_acl.defaclobjtype) and grantee
+    const defaultsQuery = `
+      SELECT
+        d.defaclobjtype AS objtype,
+        CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(acl.grantee) END AS grantee,
+        string_agg(acl.privilege_type, ', ' ORDER BY acl.privilege_type) AS privileges
+      FROM pg_catalog.pg_default_acl d
+      JOIN pg_catalog.pg_namespace n ON n.oid = d.defaclnamespace
+      CROSS JOIN LATERAL aclexplode(d.defaclacl) AS acl
+      WHERE n.nspname = $1
+        AND pg_get_userbyid(d.defaclrole) = $2
+        AND acl.grantee <> d.defaclrole
+      GROUP BY 1, 2
+      ORDER BY 1, 2;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { name: string, type: string, args: string | null, owner: string }[] };
+    const defaults = await this.client.query(defaultsQuery, [schema, owner]) as { rows: { objtype: string, grantee: string, privileges: string }[] };
+
+    const findings:Finding[] = [];
+    for (const row of res.rows.filter(row => row.owner !== owner)) {
+      const object = objectTypes[row.type]!;
+      const name = `${qualify(schema, row.name)}${row.args === null ? '' : `(${row.args})`}`;
+      const missed = defaults.rows.filter(d => d.objtype === object.defaults);
+      const fix = [`ALTER ${object.keyword} ${name} OWNER TO ${quoteIdent(owner)};`];
+      for (const privileges of new Set(missed.map(d => d.privileges))) {
+        const grantees = missed.filter(d => d.privileges === privileges).map(d => quoteRole(d.grantee));
+        fix.push(`GRANT ${privileges} ON ${object.grantKeyword} ${name} TO ${grantees.join(', ')};`);
+      }
+      const missedText = missed.length
+        ? `, so it missed the default privileges ${missed.map(d => `${d.privileges} to ${d.grantee}`).join('; ')}`
+        : '';
+      findings.push({
+        rule: 'object-owner',
+        severity: 'error',
+        schema,
+        object: row.name,
+        kind: object.kind,
+        grantee: row.owner,
+        message: `${object.label} "${schema}.${row.name}" is owned by "${row.owner}" instead of "${owner}"${missedText}`,
+        fix: fix.join('\n'),
+      });
+    }
+    return findings;
+  }
+
+  async checkPublications(schema:string, options:{ exposed?:boolean } = {}):Promise<Finding[]> {
+    // Logical replication, e.g. Realtime's supabase_realtime publication, sends the
+    // changes of a published table to its subscribers. Realtime only filters them
+    // by RLS, so only tables in exposed zones with RLS may be published.
+    // pg_publication_tables also lists tables published FOR ALL TABLES.
+    const query = `
+      SELECT
+        pt.pubname,
+        pt.tablename AS table_name,
+        c.relrowsecurity AS rls,
+        EXISTS (
+          SELECT 1 FROM pg_catalog.pg_publication_rel pr
+          WHERE pr.prpubid = p.oid AND pr.prrelid = c.oid
+        ) AS listed
+      FROM pg_catalog.pg_publication_tables pt
+      JOIN pg_catalog.pg_publication p ON p.pubname = pt.pubname
+      JOIN pg_catalog.pg_namespace n ON n.nspname = pt.schemaname
+      JOIN pg_catalog.pg_class c ON c.relnamespace = n.oid AND c.relname = pt.tablename
+      WHERE pt.schemaname = $1
+      ORDER BY pt.pubname, pt.tablename;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { pubname: string, table_name: string, rls: boolean, listed: boolean }[] };
+    const findings:Finding[] = [];
+    for (const row of res.rows) {
+      const base = { severity: 'error', schema, object: row.table_name, kind: 'table' } as const;
+      // Tables published FOR ALL TABLES or IN SCHEMA cannot be dropped one by one
+      const drop = row.listed ? { fix: `ALTER PUBLICATION ${quoteIdent(row.pubname)} DROP TABLE ${qualify(schema, row.table_name)};` } : {};
+      if (!options.exposed) {
+        findings.push({
+          ...base,
+          rule: 'publication-internal-table',
+          message: `Table "${schema}.${row.table_name}" is published in "${row.pubname}", but "${schema}" is not an exposed zone`,
+          ...drop,
+        });
+      } else if (!row.rls) {
+        findings.push({
+          ...base,
+          rule: 'publication-without-rls',
+          message: `Table "${schema}.${row.table_name}" is published in "${row.pubname}" without RLS, so its changes reach every subscriber`,
+          fix: `ALTER TABLE ${qualify(schema, row.table_name)} ENABLE ROW LEVEL SECURITY;`,
+        });
+      }
+    }
+    return findings;
+  }
+
+  async checkStorage():Promise<Finding[]> {
+    // Supabase Storage keeps files in storage.objects and their buckets in
+    // storage.buckets; both are only protected by RLS. Databases without the
+    // storage schema have nothing to check.
+    const tablesQuery = `
+      SELECT c.relname AS table_name, c.relrowsecurity AS rls
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = 'storage'
+        AND c.relname IN ('buckets', 'objects')
+      ORDER BY c.relname;
+    `;
+    const tables = await this.client.query(tablesQuery) as { rows: { table_name: string, rls: boolean }[] };
+    const findings:Finding[] = tables.rows.filter(row => !row.rls).map(row => ({
+      rule: 'storage-rls-disabled',
+      severity: 'error',
+      schema: 'storage',
+      object: row.table_name,
+      kind: 'table',
+      message: `Table "storage.${row.table_name}" does not have RLS enabled`,
+      fix: `ALTER TABLE storage.${row.table_name} ENABLE ROW LEVEL SECURITY;`,
+    }));
+    if (!tables.rows.some(row => row.table_name === 'objects')) return findings;
+
+    // Permissive policies on storage.objects that apply to anon
+    const policiesQuery = `
+      SELECT
+        pol.polname AS policy_name,
+        pol.polcmd AS command,
+        CASE WHEN 0 = ANY (pol.polroles) THEN 'PUBLIC' ELSE 'anon' END AS grantee,
+        pg_get_expr(CASE WHEN pol.polcmd = 'a' THEN pol.polwithcheck ELSE pol.polqual END, pol.polrelid) AS expression
+      FROM pg_catalog.pg_policy pol
+      WHERE pol.polrelid = 'storage.objects'::regclass
+        AND pol.polpermissive
+        AND (0 = ANY (pol.polroles) OR 'anon'::regrole = ANY (pol.polroles))
+      ORDER BY pol.polname;
+    `;
+    const policies = await this.client.query(policiesQuery) as { rows: { policy_name: string, command: string, grantee: string, expression: string | null }[] };
+    const buckets = await this.client.query('SELECT id, public FROM storage.buckets ORDER BY id;') as { rows: { id: string, public: boolean }[] };
+    const publicBuckets = new Set(buckets.rows.filter(b => b.public).map(b => b.id));
+
+    for (const row of policies.rows) {
+      const command = policyCommands[row.command]!;
+      const base = {
+        rule: 'storage-policy-unrestricted',
+        severity: 'error',
+        schema: 'storage',
+        object: 'objects',
+        kind: 'table',
+        grantee: row.grantee,
+        privilege: command,
+      } as const;
+      const policy = `Policy "${row.policy_name}" on "storage.objects"`;
+      // A policy that only checks the bucket, e.g. bucket_id = 'avatars'
+      const bucket = /^\(*bucket_id = '((?:[^']|'')*)'::text\)*$/.exec(row.expression ?? '')?.[1]?.replace(/''/g, '\'');
+      if (row.expression === 'true') {
+        findings.push({ ...base, message: `${policy} allows ${command} on the objects of every bucket to "${row.grantee}"` });
+      } else if (bucket !== undefined && !publicBuckets.has(bucket)) {
+        findings.push({ ...base, message: `${policy} allows ${command} on every object in the non-public bucket "${bucket}" to "${row.grantee}"` });
+      }
+    }
+    return findings;
+  }
+
+  async checkNoCreateOnSchemas(schemas:string[], roles:string[] = ['anon', 'authenticated']):Promise<Finding[]> {
+    // Only the owner should create objects in a schema: objects created by other
+    // roles miss the default privileges, and CREATE in a schema on the search_path
+    // of another role lets its owner shadow that role's tables and functions.
+    // Schemas and roles that do not exist are skipped.
+    const query = `
+      SELECT
+        n.nspname AS schema,
+        r.rolname AS role,
+        EXISTS (
+          SELECT 1 FROM aclexplode(n.nspacl) AS acl
+          WHERE acl.grantee = r.oid AND acl.privilege_type = 'CREATE'
+        ) AS direct,
+        EXISTS (
+          SELECT 1 FROM aclexplode(n.nspacl) AS acl
+          WHERE acl.grantee = 0 AND acl.privilege_type = 'CREATE'
+        ) AS via_public
+      FROM pg_catalog.pg_namespace n
+      CROSS JOIN pg_catalog.pg_roles r
+      WHERE n.nspname = ANY($1)
+        AND r.rolname = ANY($2)
+        AND has_schema_privilege(r.oid, n.oid, 'CREATE')
+      ORDER BY n.nspname, r.rolname;
+    `;
+    const res = await this.client.query(query, [schemas, roles]) as { rows: { schema: string, role: string, direct: boolean, via_public: boolean }[] };
+    return res.rows.map(row => {
+      const schema = quoteIdent(row.schema);
+      // Otherwise the privilege is held through a role membership
+      const fix = [
+        ...row.direct ? [`REVOKE CREATE ON SCHEMA ${schema} FROM ${quoteIdent(row.role)};`] : [],
+        ...row.via_public ? [`REVOKE CREATE ON SCHEMA ${schema} FROM PUBLIC;`] : [],
+      ];
+      return {
+        rule: 'schema-create',
+        severity: 'error',
+        schema: row.schema,
+        object: row.schema,
+        kind: 'schema',
+        grantee: row.role,
+        privilege: 'CREATE',
+        message: `Role "${row.role}" has CREATE on schema "${row.schema}"${row.direct ? '' : row.via_public ? ' through PUBLIC' : ' through a role it is a member of'}`,
+        ...(fix.length ? { fix: fix.join('\n') } : {}),
+      };
+    });
+  }
+
+  async checkNoPublicExecute(schema:string):Promise<Finding[]> {
+    // Routines get EXECUTE for PUBLIC when they are created, unless the default
+    // privileges of their owner revoke it, e.g. routines created before the
+    // schema setup SQL ran or by another role.
+    const query = `
+      SELECT p.proname AS routine_name, p.prokind, pg_get_function_identity_arguments(p.oid) AS args
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      CROSS JOIN LATERAL aclexplode(coalesce(p.proacl, acldefault('f', p.proowner))) AS acl
+      WHERE n.nspname = $1
+        AND acl.grantee = 0
+        AND acl.privilege_type = 'EXECUTE'
+        AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+      ORDER BY p.proname, args;
+    `;
+    const res = await this.client.query(query, [schema]) as { rows: { routine_name: string, prokind: string, args: string }[] };
+    return res.rows.map(row => ({
+      rule: 'routine-public-execute',
+      severity: 'error',
+      schema,
+      object: row.routine_name,
+      kind: routineKind(row.prokind),
+      grantee: 'PUBLIC',
+      privilege: 'EXECUTE',
+      message: `Routine "${schema}.${row.routine_name}(${row.args})" can be executed by PUBLIC, i.e. every role`,
+      fix: `REVOKE EXECUTE ON ${routineKind(row.prokind).toUpperCase()} ${qualify(schema, row.routine_name)}(${row.args}) FROM PUBLIC;`,
+    }));
+  }
+
+  async checkPublicSchema(config:ZoneConfig):Promise<Finding[]> {
+    // Application objects belong in a zone (ADR-0002). Members of extensions, such
+    // as those in Supabase's extensions installed in public, are skipped.
+    const query = `
+      SELECT c.relname AS name, 'class:' || c.relkind AS type
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = 'public'
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+      UNION
+      SELECT p.proname, 'proc:' || p.prokind
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = 'public'
+        AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+      UNION
+      SELECT t.typname, 'type:' || t.typtype
+      FROM pg_catalog.pg_type t
+      JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = 'public'
+        AND t.typtype IN ('c', 'd', 'e', 'r')
+        AND (t.typrelid = 0 OR (SELECT c.relkind FROM pg_catalog.pg_class c WHERE c.oid = t.typrelid) = 'c')
+        AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e')
+      ORDER BY name, type;
+    `;
+    const res = await this.client.query(query) as { rows: { name: string, type: string }[] };
+    const allowed = new Set(config.publicObjects ?? []);
+    const findings:Finding[] = res.rows.filter(row => !allowed.has(row.name)).map(row => {
+      const object = objectTypes[row.type]!;
+      return {
+        rule: 'public-schema-object',
+        severity: 'error',
+        schema: 'public',
+        object: row.name,
+        kind: object.kind,
+        message: `${object.label} "public.${row.name}" is in the public schema instead of a zone`,
+      };
+    });
+    const roles = zoneRoles(config).filter(role => role !== zoneOwner(config));
+    return [...findings, ...await this.checkNoCreateOnSchemas(['public'], roles)];
+  }
+
+  async checkValidSearchPath(role:string, expected?:string[]):Promise<Finding[]> {
+    // The search_path a new session of the role starts with comes from the first
+    // of these that sets it, in PostgreSQL's order of precedence. The server-wide
+    // value from postgresql.conf is not visible to non-superusers, so the last
+    // resort is the built-in default.
+    const query = `
+      SELECT
+        current_database() AS database,
+        (SELECT s.setconfig FROM pg_catalog.pg_db_role_setting s JOIN pg_catalog.pg_database d ON d.oid = s.setdatabase
+          WHERE s.setrole = r.oid AND d.datname = current_database()) AS role_in_database,
+        (SELECT s.setconfig FROM pg_catalog.pg_db_role_setting s
+          WHERE s.setrole = r.oid AND s.setdatabase = 0) AS role,
+        (SELECT s.setconfig FROM pg_catalog.pg_db_role_setting s JOIN pg_catalog.pg_database d ON d.oid = s.setdatabase
+          WHERE s.setrole = 0 AND d.datname = current_database()) AS database_wide,
+        (SELECT boot_val FROM pg_catalog.pg_settings WHERE name = 'search_path') AS built_in,
+        EXISTS (SELECT 1 FROM pg_catalog.pg_namespace WHERE nspname = r.rolname) AS user_schema
+      FROM pg_catalog.pg_roles r
+      WHERE r.rolname = $1;
+    `;
+    const res = await this.client.query(query, [role]) as { rows: {
+      database:string, role_in_database:string[] | null, role:string[] | null, database_wide:string[] | null, built_in:string, user_schema:boolean,
+    }[] };
+    const row = res.rows[0];
+    const base = { severity: 'error', object: role, kind: 'role' } as const;
+    if (!row) {
+      return [{ ...base, rule: 'search-path-role-missing', message: `Role "${role}" does not exist` }];
+    }
+
+    const searchPathOf = (config:string[] | null) => config?.find(c => c.startsWith('search_path='))?.slice('search_path='.length);
+    const levels = [
+      { source: `the role in database "${row.database}"`, value: searchPathOf(row.role_in_database), inDatabase: true },
+      { source: 'the role', value: searchPathOf(row.role), inDatabase: false },
+      { source: `database "${row.database}"`, value: searchPathOf(row.database_wide), inDatabase: false },
+    ];
+    const level = levels.find(l => l.value !== undefined);
+    // A setting for the role in this database overrides one for the role, so the
+    // fix has to replace it there
+    const setSearchPath = (path:string[]) =>
+      `ALTER ROLE ${quoteIdent(role)}${level?.inDatabase ? ` IN DATABASE ${quoteIdent(row.database)}` : ''} SET search_path = ${path.map(quoteIdent).join(', ')};`;
+
+    const schemas = parseSearchPath(level?.value ?? row.built_in);
+    // "$user" is the schema named after the role, and is skipped if there is none
+    const resolved = schemas.flatMap(s => s !== '$user' ? [s] : row.user_schema ? [role] : []);
+    const described = `search_path for role "${role}" (set for ${level?.source ?? 'nobody, so the built-in default applies'}) resolves to "${resolved.join(', ')}"`;
+    // The fix is the expected path if there is one, otherwise the current path repaired
+    const fix = setSearchPath(expected ?? ['api', ...schemas.filter(s => s !== 'api' && s !== 'public')]);
+
+    const findings:Finding[] = [];
+    if (!level) {
+      findings.push({ ...base, rule: 'search-path-not-set', message: `Role "${role}" does not have an explicit search_path, so it resolves to "${resolved.join(', ')}"`, fix: setSearchPath(expected ?? ['api']) });
+      return findings;
+    }
+    // Without an expected path, "api" must come first
+    if (!expected && !resolved.includes('api')) {
+      findings.push({ ...base, rule: 'search-path-missing-api', message: `${described}, which does not include "api"`, fix });
+    } else if (!expected && resolved[0] !== 'api') {
+      findings.push({ ...base, rule: 'search-path-api-not-first', message: `${described}, which does not start with "api"`, fix });
+    }
+    if (resolved.includes('public')) {
+      findings.push({ ...base, rule: 'search-path-includes-public', message: `${described}, which includes "public"`, fix });
+    }
+    // If an expected path was given, it must match exactly and in order
+    if (expected && resolved.join(',') !== expected.join(',')) {
+      findings.push({ ...base, rule: 'search-path-mismatch', message: `${described}, expected "${expected.join(', ')}"`, fix });
+    }
+    return findings;
+  }
+
+  // PostgREST can also read its configuration from settings of the role it
+  // connects as (in-database configuration). When pgrst.db_schemas is set there,
+  // it must expose the same zones, and match supabase/config.toml if given.
+  async checkPostgrestSchemas(config:ZoneConfig, settings?:ApiSettings, role = 'authenticator'):Promise<Finding[]> {
+    const query = `
+      SELECT substr(c, length('pgrst.db_schemas=') + 1) AS schemas
+      FROM pg_catalog.pg_db_role_setting s
+      JOIN pg_catalog.pg_roles r ON r.oid = s.setrole
+      CROSS JOIN unnest(s.setconfig) AS c
+      WHERE r.rolname = $1
+        AND s.setdatabase IN (0, (SELECT oid FROM pg_catalog.pg_database WHERE datname = current_database()))
+        AND c LIKE 'pgrst.db_schemas=%'
+      ORDER BY s.setdatabase DESC
+      LIMIT 1;
+    `;
+    const res = await this.client.query(query, [role]) as { rows: { schemas:string }[] };
+    const setting = res.rows[0];
+    if (!setting) return [];
+    const schemas = setting.schemas.split(',').map(s => s.trim()).filter(Boolean);
+    const source = `pgrst.db_schemas of role "${role}"`;
+    const findings = exposedSchemaFindings(schemas, config, source);
+    if (settings && [...schemas].sort().join(',') !== [...settings.schemas].sort().join(',')) {
+      findings.push({
+        rule: 'api-schemas-mismatch',
+        severity: 'warning',
+        object: role,
+        kind: 'role',
+        message: `${source} exposes "${schemas.join(', ')}", but [api] schemas in ${settings.file} exposes "${settings.schemas.join(', ')}"`,
+      });
+    }
+    return findings;
+  }
+
+  // Runs one rule against a schema, whether it is registered or not.
+  async checkRule(rule:Rule, schema:string):Promise<Finding[]> {
+    return runRule(this.client, rule, schema);
+  }
+
+  // Runs the registered rules against a zone; `exposed` rules only run when the
+  // zone is exposed.
+  async checkRules(schema:string, options:{ exposed?:boolean } = {}):Promise<Finding[]> {
+    const findings:Finding[] = [];
+    for (const rule of this.rules.filter(r => options.exposed || !r.exposed)) {
+      findings.push(...await this.checkRule(rule, schema));
+    }
+    return findings;
+  }
+
+  // Compares the access matrix of the snapshot's schemas with the snapshot, e.g.
+  // one committed to the repository with `supabase-security snapshot`.
+  async checkSnapshot(expected:SecuritySnapshot):Promise<Finding[]> {
+    return diffSnapshots(expected, await takeSnapshot(this.client, expected.schemas));
+  }
+
+  // Runs every check against every zone in the configuration, and leaves out the
+  // findings covered by an exception.
+  async auditZones(config:ZoneConfig):Promise<Finding[]> {
+    const owner = zoneOwner(config);
+    const platformRoles = config.platformRoles ?? [];
+    const findings:Finding[] = [];
+
+    for (const zone of config.schemas) {
+      const { schema, roles } = zone;
+      // Platform roles may reach zone objects through role membership
+      const allowed = [...roles, owner, ...platformRoles];
+      if (zone.exposed) {
+        findings.push(...await this.checkRLSEnabledForTablesAndMaterializedViews(schema));
+        findings.push(...await this.checkNoSecurityDefinersRoutines(schema));
+        findings.push(...await this.checkRLSPolicies(schema, roles, { requireForceRLS: zone.forceRLS ?? false }));
+        findings.push(...await this.checkViewsAreSecurityInvoker(schema, zone.publicRelations));
+        findings.push(...await this.checkNoExposedMaterializedViews(schema, roles, zone.publicRelations));
+      }
+      findings.push(...await this.checkAccessToSchema(schema, [...roles, owner], platformRoles));
+      findings.push(...await this.checkNoCreateOnSchemas([schema], zoneRoles(config).filter(role => role !== owner)));
+      findings.push(...await this.checkSecurityDefinerSearchPath(schema));
+      // Tables, views and columns
+      findings.push(...await this.checkNoTablesWithExtraRoles(schema, allowed));
+      findings.push(...await this.checkNoColumnsWithExtraRoles(schema, allowed));
+      findings.push(...await this.checkTablePrivileges(schema, roles));
+      findings.push(...await this.checkDefaultPrivilegesForTables(schema, roles, owner));
+      // Sequences
+      findings.push(...await this.checkNoSequencesWithExtraRoles(schema, allowed));
+      findings.push(...await this.checkSequencePrivileges(schema, roles));
+      findings.push(...await this.checkDefaultPrivilegesForSequences(schema, roles, owner));
+      // Routines
+      findings.push(...await this.checkNoRoutinesWithExtraRoles(schema, allowed));
+      findings.push(...await this.checkNoPublicExecute(schema));
+      findings.push(...await this.checkRoutinePrivileges(schema, roles));
+      findings.push(...await this.checkDefaultPrivilegesForRoutines(schema, roles, owner));
+      // Types and domains
+      findings.push(...await this.checkNoTypesWithExtraRoles(schema, allowed));
+      findings.push(...await this.checkTypePrivileges(schema, roles));
+      findings.push(...await this.checkDefaultPrivilegesForTypes(schema, roles, owner));
+      findings.push(...await this.checkObjectOwnership(schema, owner));
+      findings.push(...await this.checkPublications(schema, { exposed: zone.exposed ?? false }));
+      findings.push(...await this.checkRules(schema, { exposed: zone.exposed ?? false }));
+    }
+    for (const [role, path] of Object.entries(config.searchPaths ?? {})) {
+      findings.push(...await this.checkValidSearchPath(role, path));
+    }
+    return this.applyExceptions(findings);
+  }
+
+  // Leaves out the findings covered by an exception, and remembers the exceptions
+  // that covered something for checkExceptions.
+  applyExceptions(findings:Finding[]):Finding[] {
+    return applyExceptions(findings, this.exceptions, this.usedExceptions);
+  }
+
+  // Reports the exceptions that have expired or have not covered a finding so
+  // far, so call it after every check has run.
+  checkExceptions():Finding[] {
+    return exceptionFindings(this.exceptions, this.usedExceptions);
+  }
+
+  private async checkEffectivePrivileges(target:PrivilegeTarget, schema:string, roles:string[]) {
+    const res = await this.client.query(effectivePrivilegesQuery(target), [schema]) as { rows: EffectivePrivilegeRow[] };
+    return effectivePrivilegeFindings(target, schema, res.rows, roles);
+  }
+
+  private async checkMissingPrivileges(target:ZoneObjectType, schema:string, roles:string[]) {
+    const res = await this.client.query(missingPrivilegesQuery(target), [schema, roles, zonePrivileges[target]]) as { rows: MissingPrivilegeRow[] };
+    return missingPrivilegeFindings(target, schema, res.rows);
+  }
+
+  // Default privileges must grant exactly the zone's privilege set to each role.
+  // Only those of the owner count, since only they apply to the objects it
+  // creates; any other role's grants outside the set are reported too.
+  private async checkDefaultPrivileges(target:ZoneObjectType, schema:string, roles:string[], owner:string) {
+    const query = `
+      SELECT DISTINCT
+        pg_get_userbyid(d.defaclrole) AS owner,
+        CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(acl.grantee) END AS grantee,
+        acl.privilege_type
+      FROM pg_catalog.pg_default_acl d
+      JOIN pg_catalog.pg_namespace n ON n.oid = d.defaclnamespace
+      CROSS JOIN LATERAL aclexplode(d.defaclacl) AS acl
+      WHERE n.nspname = $1
+        AND d.defaclobjtype = ANY($2)
+        AND acl.grantee <> d.defaclrole
+      ORDER BY grantee ASC, acl.privilege_type ASC;
+    `;
+    const res = await this.client.query(query, [schema, zoneObjects[target].defaults]) as { rows: { owner:string, grantee:string, privilege_type:string }[] };
+
+    const expected = zonePrivileges[target];
+    const objects = `${target.toUpperCase()}S`;
+    const kind:ObjectKind = target === 'routine' ? 'function' : target;
+    const forRole = (role:string) => `ALTER DEFAULT PRIVILEGES FOR ROLE ${quoteIdent(role)} IN SCHEMA ${quoteIdent(schema)}`;
+    const findings:Finding[] = [];
+
+    for (const grantee of roles) {
+      const granted = res.rows.filter(row => row.grantee === grantee && row.owner === owner).map(row => row.privilege_type);
+      const missing = expected.filter(p => !granted.includes(p));
+      if (missing.length) {
+        findings.push({
+          rule: 'default-privilege-missing',
+          severity: 'error',
+          schema,
+          kind,
+          grantee,
+          privilege: missing.join(', '),
+          message: `Default privileges on new ${target}s in "${schema}" do not grant ${missing.join(', ')} to "${grantee}"`,
+          fix: `${forRole(owner)}\nGRANT ${missing.join(', ')} ON ${objects} TO ${quoteRole(grantee)};`,
+        });
+      }
+    }
+
+    // Grants to roles outside the zone, and grants beyond the zone's privilege set
+    const extra = res.rows.filter(row => !roles.includes(row.grantee) || !expected.includes(row.privilege_type));
+    for (const grantee of new Set(extra.map(row => row.grantee))) {
+      const rows = extra.filter(row => row.grantee === grantee);
+      const privileges = [...new Set(rows.map(row => row.privilege_type))].join(', ');
+      findings.push({
+        rule: 'default-privilege-extra',
+        severity: 'error',
+        schema,
+        kind,
+        grantee,
+        privilege: privileges,
+        message: `Default privileges on new ${target}s in "${schema}" grant ${privileges} to "${grantee}"`,
+        fix: [...new Set(rows.map(row => row.owner))]
+          .map(role => `${forRole(role)}\nREVOKE ${rows.filter(row => row.owner === role).map(row => row.privilege_type).join(', ')} ON ${objects} FROM ${quoteRole(grantee)};`)
+          .join('\n'),
+      });
+    }
+    return findings;
+  }
+}
@@ -0,0 +1,278 @@
+#!/usr/bin/env node
+import { existsSync, realpathSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { Client, type ClientConfig } from 'pg';
+import { SupabaseAuditor } from './auditor.js';
+import { exceptionsFile, loadExceptions } from './exceptions.js';
+import { checkApiSettings, readApiSettings, supabaseConfigFile } from './exposure.js';
+import { hasErrors, type Finding } from './findings.js';
+import { generateEventTriggerSql, generateSchemaSetupSql, migrationsDirectory, schemaSetupFile, writeSchemaSetupFiles } from './generator.js';
+import { lintDirectories, lintFiles, sqlFiles } from './lint.js';
+import { formatMatrix, matrixFormats, type MatrixFormat } from './matrix.js';
+import { writeRemediationMigration } from './remediation.js';
+import { formatReport, reportFormats, type ReportFormat } from './reporters.js';
+import { loadRules } from './rules.js';
+import { readSnapshot, snapshotFile, takeSnapshot, writeSnapshot } from './snapshot.js';
+import { defaultZoneConfig, type ZoneConfig } from './zones.js';
+
+const usage = `Usage: supabase-security <command> [options] [files]
+
+Commands:
+  audit      Run every zone check against the database, and check the
+             exposed schemas in ${supabaseConfigFile}
+  fix        Write the SQL that fixes the audit findings to a new migration
+             in supabase/migrations (or the --output directory) for review;
+             nothing is applied
+  generate   Write the schema setup SQL for the zones to ${schemaSetupFile}
+             and, if it changed, to a new migration in ${migrationsDirectory}
+             (or only to --output)
+  lint       Check SQL files for risky statements without a database
+             (default: the .sql files in ${lintDirectories.join(' and ')})
+  report     Write the access matrix of the zones (or --schema) with the
+             audit findings highlighted, as markdown or html
+  snapshot   Write the access matrix of the zones to ${snapshotFile}
+             (or --output); audit reports any change from it
+  triggers   Print the opt-in event trigger that enforces the zone rules
+             on DDL, to add to a migration (or write it to --output)
+
+Options:
+  --format <format>      Output format: ${reportFormats.join(', ')} (default: text);
+                         for report: ${matrixFormats.join(', ')} (default: markdown)
+  --config <file>        Zone configuration as JSON (default: the api/private zones)
+  --snapshot <file>      Security snapshot to compare with (default: ${snapshotFile},
+                         if it exists)
+  --exceptions <file>    Accepted findings as JSON (default: ${exceptionsFile},
+                         if it exists)
+  --rules <module>       Custom rules to run in every zone: a JavaScript module
+                         that exports an array of rules by default, or
+                         \`supabase\` for the ports of the Supabase linter;
+                         repeat for more
+  --schema <name>        Schema to report on; repeat for more (default: the zones)
+  --connection <url>     Connection string (default: the DB_* environment variables)
+  --output <file>        Write to this file instead of the default
+  --help                 Show this message
+`;
+
+class UsageError extends Error {}
+
+// The same variables and defaults as tests/database.test.ts.
+export function connectionFromEnv(env:NodeJS.ProcessEnv):ClientConfig {
+  return {
+    user: env.DB_USER || 'postgres',
+    host: env.DB_HOST || 'localhost',
+    database: env.DB_NAME || 'postgres',
+    password: env.DB_PASSWORD || 'postgres',
+    port: parseInt(env.DB_PORT || '54322', 10),
+  };
+}
+
+async function loadZoneConfig(path:string|undefined):Promise<ZoneConfig> {
+  if (!path) return defaultZoneConfig;
+  return JSON.parse(await readFile(path, 'utf8')) as ZoneConfig;
+}
+
+async function loadExceptionsFile(path:string|undefined) {
+  if (path) return loadExceptions(path);
+  return existsSync(exceptionsFile) ? loadExceptions(exceptionsFile) : [];
+}
+
+function connect(connection:string|undefined) {
+  return new Client(connection ? { connectionString: connection } : connectionFromEnv(process.env));
+}
+
+async function auditDatabase(options:{ rules:string[], config?:string, exceptions?:string, snapshot?:string, connection?:string }) {
+  const config = await loadZoneConfig(options.config);
+  const exceptions = await loadExceptionsFile(options.exceptions);
+  const rules = (await Promise.all(options.rules.map(loadRules))).flat();
+  const snapshotPath = options.snapshot ?? (existsSync(snapshotFile) ? snapshotFile : undefined);
+  const auditor = new SupabaseAuditor(connect(options.connection), { exceptions, rules });
+  await auditor.setup();
+  try {
+    const findings = await auditor.auditZones(config);
+    const other:Finding[] = [];
+    const settings = existsSync(supabaseConfigFile) ? await readApiSettings() : undefined;
+    if (settings) other.push(...checkApiSettings(settings, config));
+    other.push(...await auditor.checkPostgrestSchemas(config, settings));
+    other.push(...await auditor.checkPublicSchema(config));
+    other.push(...await auditor.checkStorage());
+    if (snapshotPath) other.push(...await auditor.checkSnapshot(await readSnapshot(snapshotPath)));
+    // auditZones has applied the exceptions to its own findings; an exception is
+    // only stale if no check at all used it
+    return [...findings, ...auditor.applyExceptions(other), ...auditor.checkExceptions()];
+  } finally {
+    await auditor.teardown();
+  }
+}
+
+async function audit(options:{ format:ReportFormat, rules:string[], config?:string, exceptions?:string, snapshot?:string, connection?:string, output?:string }) {
+  const findings = await auditDatabase(options);
+  const report = formatReport(findings, options.format);
+  if (options.output) await writeFile(options.output, report);
+  else process.stdout.write(report);
+  return hasErrors(findings) ? 1 : 0;
+}
+
+async function fix(options:{ rules:string[], config?:string, exceptions?:string, snapshot?:string, connection?:string, output?:string }) {
+  const findings = await auditDatabase(options);
+  const path = await writeRemediationMigration(findings, options.output);
+  process.stderr.write(path ? `Wrote ${path}; review it before applying.\n` : 'Nothing to fix.\n');
+  return 0;
+}
+
+async function generate(options:{ config?:string, output?:string }) {
+  const config = await loadZoneConfig(options.config);
+  if (options.output) await writeFile(options.output, generateSchemaSetupSql(config));
+  const written = options.output ? [options.output] : await writeSchemaSetupFiles(config);
+  process.stderr.write(written.length ? written.map(path => `Wrote ${path}\n`).join('') : 'The schema setup SQL is up to date.\n');
+  return 0;
+}
+
+async function triggers(options:{ config?:string, output?:string }) {
+  const sql = generateEventTriggerSql(await loadZoneConfig(options.config));
+  if (options.output) {
+    await writeFile(options.output, sql);
+    process.stderr.write(`Wrote ${options.output}\n`);
+  } else {
+    process.stdout.write(sql);
+  }
+  return 0;
+}
+
+async function report(options:{ format:MatrixFormat, schemas:string[], rules:string[], config?:string, exceptions?:string, snapshot?:string, connection?:string, output?:string }) {
+  const findings = await auditDatabase(options);
+  const config = await loadZoneConfig(options.config);
+  const client = connect(options.connection);
+  await client.connect();
+  let matrix:string;
+  try {
+    const schemas = options.schemas.length ? options.schemas : config.schemas.map(zone => zone.schema);
+    matrix = formatMatrix(await takeSnapshot(client, schemas), findings, options.format);
+  } finally {
+    await client.end();
+  }
+  if (options.output) await writeFile(options.output, matrix);
+  else process.stdout.write(matrix);
+  return 0;
+}
+
+async function lint(options:{ format:ReportFormat, config?:string, output?:string }, files:string[]) {
+  const config = await loadZoneConfig(options.config);
+  const findings = await lintFiles(files.length ? files : await sqlFiles(), config);
+  const report = formatReport(findings, options.format);
+  if (options.output) await writeFile(options.output, report);
+  else process.stdout.write(report);
+  return hasErrors(findings) ? 1 : 0;
+}
+
+async function snapshot(options:{ config?:string, connection?:string, output?:string }) {
+  const config = await loadZoneConfig(options.config);
+  const client = connect(options.connection);
+  await client.connect();
+  try {
+    const path = options.output ?? snapshotFile;
+    await writeSnapshot(await takeSnapshot(client, config.schemas.map(zone => zone.schema)), path);
+    process.stderr.write(`Wrote ${path}\n`);
+  } finally {
+    await client.end();
+  }
+  return 0;
+}
+
+// Returns the exit code: 0 when clean, 1 when there are errors, 2 when the
+// command could not run.
+export async function run(argv:string[]):Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string' },
+        config: { type: 'string' },
+        exceptions: { type: 'string' },
+        snapshot: { type: 'string' },
+        rules: { type: 'string', multiple: true, default: [] },
+        schema: { type: 'string', multiple: true, default: [] },
+        connection: { type: 'string' },
+        output: { type: 'string' },
+        help: { type: 'boolean', default: false },
+      },
+    });
+    if (values.help) {
+      process.stdout.write(usage);
+      return 0;
+    }
+    const [command, ...files] = positionals;
+    const formats:string[] = command === 'report' ? matrixFormats : reportFormats;
+    const format = values.format ?? formats[0]!;
+    if (!formats.includes(format)) throw new UsageError(`Unknown format "${values.format}"`);
+
+    switch (command) {
+      case 'audit':
+        return await audit({
+          format: format as ReportFormat,
+          rules: values.rules,
+          ...(values.config ? { config: values.config } : {}),
+          ...(values.exceptions ? { exceptions: values.exceptions } : {}),
+          ...(values.snapshot ? { snapshot: values.snapshot } : {}),
+          ...(values.connection ? { connection: values.connection } : {}),
+          ...(values.output ? { output: values.output } : {}),
+        });
+      case 'fix':
+        return await fix({
+          rules: values.rules,
+          ...(values.config ? { config: values.config } : {}),
+          ...(values.exceptions ? { exceptions: values.exceptions } : {}),
+          ...(values.snapshot ? { snapshot: values.snapshot } : {}),
+          ...(values.connection ? { connection: values.connection } : {}),
+          ...(values.output ? { output: values.output } : {}),
+        });
+      case 'lint':
+        return await lint({
+          format: format as ReportFormat,
+          ...(values.config ? { config: values.config } : {}),
+          ...(values.output ? { output: values.output } : {}),
+        }, files);
+      case 'report':
+        return await report({
+          format: format as MatrixFormat,
+          schemas: values.schema,
+          rules: values.rules,
+          ...(values.config ? { config: values.config } : {}),
+          ...(values.exceptions ? { exceptions: values.exceptions } : {}),
+          ...(values.snapshot ? { snapshot: values.snapshot } : {}),
+          ...(values.connection ? { connection: values.connection } : {}),
+          ...(values.output ? { output: values.output } : {}),
+        });
+      case 'snapshot':
+        return await snapshot({
+          ...(values.config ? { config: values.config } : {}),
+          ...(values.connection ? { connection: values.connection } : {}),
+          ...(values.output ? { output: values.output } : {}),
+        });
+      case 'generate':
+        return await generate({
+          ...(values.config ? { config: values.config } : {}),
+          ...(values.output ? { output: values.output } : {}),
+        });
+      case 'triggers':
+        return await triggers({
+          ...(values.config ? { config: values.config } : {}),
+          ...(values.output ? { output: values.output } : {}),
+        });
+      default:
+        throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+    }
+  } catch (err) {
+    process.stderr.write(`${(err as Error).message}\n`);
+    if (err instanceof UsageError || (err as { code?:string }).code?.startsWith('ERR_PARSE_ARGS')) process.stderr.write(`\n${usage}`);
+    return 2;
+  }
+}
+
+// Only run when started as the CLI (possibly through a symlink in
+// node_modules/.bin), not when imported
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  process.exitCode = await run(process.argv.slice(2));
+}
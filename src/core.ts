@@ -0,0 +1,16 @@
+// Everything that does not depend on a test runner. Import from here in scripts,
+// CLIs and other test frameworks; `index.ts` adds the vitest adapters.
+export * from './auditor.js';
+export * from './exceptions.js';
+export * from './exposure.js';
+export * from './findings.js';
+export * from './generator.js';
+export * from './impersonation.js';
+export * from './lint.js';
+export * from './matrix.js';
+export * from './remediation.js';
+export * from './rules.js';
+export * from './snapshot.js';
+export * from './sql.js';
+export * from './suite.js';
+export * from './zones.js';
@@ -0,0 +1,97 @@
+import { readFile } from 'node:fs/promises';
+import type { Finding } from './findings.js';
+
+// A finding that is accepted on purpose, e.g. a `USING (true)` policy on a public
+// table or SELECT granted to a reporting role. Every field that is given must
+// match the finding; the ones left out match anything.
+export interface FindingException {
+  rule:string;
+  schema?:string;
+  object?:string;
+  grantee?:string;
+  privilege?:string;
+  // Why the finding is accepted, so that the file documents itself in review.
+  reason:string;
+  // YYYY-MM-DD; the exception no longer applies after this day.
+  expires?:string;
+}
+
+export const exceptionsFile = 'supabase/security-exceptions.json';
+
+const matchFields = ['schema', 'object', 'grantee', 'privilege'] as const;
+const knownFields = new Set<string>(['rule', 'reason', 'expires', ...matchFields]);
+
+// Rejects unknown fields, because a misspelled field would otherwise be ignored
+// and the exception would match far more than intended.
+function validateException(value:unknown, where:string):FindingException {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error(`${where}: expected an object`);
+  const entry = value as Record<string, unknown>;
+  for (const [key, field] of Object.entries(entry)) {
+    if (!knownFields.has(key)) throw new Error(`${where}: unknown field "${key}"`);
+    if (typeof field !== 'string') throw new Error(`${where}: "${key}" must be a string`);
+  }
+  if (!entry.rule) throw new Error(`${where}: "rule" is required`);
+  if (!(entry.reason as string | undefined)?.trim()) throw new Error(`${where}: "reason" is required`);
+  if (entry.expires !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(entry.expires as string)) {
+    throw new Error(`${where}: "expires" must be a date like 2025-12-31`);
+  }
+  return entry as unknown as FindingException;
+}
+
+// Reads a JSON array of exceptions, e.g. supabase/security-exceptions.json.
+export async function loadExceptions(path = exceptionsFile):Promise<FindingException[]> {
+  const exceptions = JSON.parse(await readFile(path, 'utf8')) as unknown;
+  if (!Array.isArray(exceptions)) throw new Error(`${path}: expected an array of exceptions`);
+  return exceptions.map((entry, i) => validateException(entry, `${path}[${i}]`));
+}
+
+export function matchesException(finding:Finding, exception:FindingException) {
+  return finding.rule === exception.rule && matchFields.every(field => exception[field] === undefined || exception[field] === finding[field]);
+}
+
+export function isExpired(exception:FindingException, today = new Date()) {
+  return exception.expires !== undefined && exception.expires < today.toISOString().slice(0, 10);
+}
+
+// Removes the findings covered by an exception that has not expired, and adds
+// the exceptions that covered something to `used`.
+export function applyExceptions(findings:Finding[], exceptions:FindingException[], used = new Set<FindingException>(), today = new Date()) {
+  const active = exceptions.filter(e => !isExpired(e, today));
+  return findings.filter(finding => {
+    const matching = active.filter(e => matchesException(finding, e));
+    matching.forEach(e => used.add(e));
+    return !matching.length;
+  });
+}
+
+function describeException(exception:FindingException) {
+  const object = [exception.schema, exception.object].filter(Boolean).join('.');
+  return [
+    `"${exception.rule}"`,
+    ...object ? [`on "${object}"`] : [],
+    ...exception.grantee ? [`for "${exception.grantee}"`] : [],
+    ...exception.privilege ? [`(${exception.privilege})`] : [],
+  ].join(' ');
+}
+
+// Exceptions that have expired or no longer match any finding are reported, so
+// that the file cannot silently go stale.
+export function exceptionFindings(exceptions:FindingException[], used:Set<FindingException>, today = new Date()):Finding[] {
+  return exceptions.flatMap((exception):Finding[] => {
+    if (isExpired(exception, today)) {
+      return [{
+        rule: 'exception-expired',
+        severity: 'error',
+        message: `Exception for ${describeException(exception)} expired on ${exception.expires}: ${exception.reason}`,
+      }];
+    }
+    if (!used.has(exception)) {
+      return [{
+        rule: 'exception-unused',
+        severity: 'error',
+        message: `Exception for ${describeException(exception)} does not match any finding: ${exception.reason}`,
+      }];
+    }
+    return [];
+  });
+}
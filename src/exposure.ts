@@ -0,0 +1,206 @@
+import { readFile } from 'node:fs/promises';
+import type { Finding } from './findings.js';
+import type { ZoneConfig } from './zones.js';
+
+export const supabaseConfigFile = 'supabase/config.toml';
+
+export type TomlValue = string | number | boolean | TomlValue[];
+
+// A key of a TOML document and the line it is defined on, e.g. `api.schemas`.
+export interface TomlEntry {
+  value:TomlValue;
+  line:number;
+}
+
+// Parses the subset of TOML used by supabase/config.toml: tables, dotted keys,
+// strings, numbers, booleans and (multi-line) arrays. Keys are returned with
+// their table as a prefix. Inline tables and multi-line strings are not
+// supported, and throw. Errors start with `source` and the line.
+export function parseToml(text:string, source = supabaseConfigFile):Record<string, TomlEntry> {
+  const entries:Record<string, TomlEntry> = {};
+  let i = 0;
+  let line = 1;
+  let table = '';
+
+  const fail = (message:string):never => { throw new Error(`${source}:${line}: ${message}`); };
+  // Skips spaces, and also newlines and comments if `newlines` is set
+  const skip = (newlines:boolean) => {
+    while (i < text.length) {
+      const c = text[i]!;
+      if (c === ' ' || c === '\t' || c === '\r') i++;
+      else if (c === '#') { while (i < text.length && text[i] !== '\n') i++; }
+      else if (c === '\n' && newlines) { line++; i++; }
+      else break;
+    }
+  };
+  const string = () => {
+    const quote = text[i]!;
+    if (text.startsWith(quote.repeat(3), i)) fail('multi-line strings are not supported');
+    let value = '';
+    for (i++; text[i] !== quote; i++) {
+      if (i >= text.length || text[i] === '\n') fail('unterminated string');
+      if (quote === '"' && text[i] === '\\') {
+        const escape = text[++i]!;
+        if (escape === 'u' || escape === 'U') {
+          const length = escape === 'u' ? 4 : 8;
+          value += String.fromCodePoint(parseInt(text.slice(i + 1, i + 1 + length), 16));
+          i += length;
+        } else {
+          value += ({ b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' } as Record<string, string>)[escape] ?? fail(`invalid escape \\${escape}`);
+        }
+      } else {
+        value += text[i];
+      }
+    }
+    i++;
+    return value;
+  };
+  const key = () => {
+    const parts:string[] = [];
+    for (;;) {
+      skip(false);
+      if (text[i] === '"' || text[i] === '\'') parts.push(string());
+      else {
+        const bare = /^[A-Za-z0-9_-]+/.exec(text.slice(i))?.[0] ?? fail('expected a key');
+        parts.push(bare);
+        i += bare.length;
+      }
+      skip(false);
+      if (text[i] !== '.') return parts.join('.');
+      i++;
+    }
+  };
+  const value = ():TomlValue => {
+    const c = text[i];
+    if (c === '"' || c === '\'') return string();
+    if (c === '[') {
+      const items:TomlValue[] = [];
+      i++;
+      for (skip(true); text[i] !== ']'; skip(true)) {
+        items.push(value());
+        skip(true);
+        if (text[i] === ',') i++;
+        else if (text[i] !== ']') fail('expected , or ] in array');
+      }
+      i++;
+      return items;
+    }
+    if (c === '{') fail('inline tables are not supported');
+    const scalar = /^[^\s,\]#]+/.exec(text.slice(i))?.[0] ?? fail('expected a value');
+    i += scalar.length;
+    if (scalar === 'true' || scalar === 'false') return scalar === 'true';
+    const number = Number(scalar.replace(/_/g, ''));
+    return Number.isNaN(number) ? fail(`unsupported value ${scalar}`) : number;
+  };
+
+  for (skip(true); i < text.length; skip(true)) {
+    if (text[i] === '[') {
+      const array = text[i + 1] === '[';
+      i += array ? 2 : 1;
+      table = key();
+      if (!text.startsWith(array ? ']]' : ']', i)) fail('expected ] after the table name');
+      i += array ? 2 : 1;
+    } else {
+      const start = line;
+      const name = key();
+      if (text[i] !== '=') fail('expected =');
+      i++;
+      skip(false);
+      entries[table ? `${table}.${name}` : name] = { value: value(), line: start };
+    }
+    skip(false);
+    if (i < text.length && text[i] !== '\n') fail('expected the end of the line');
+  }
+  return entries;
+}
+
+// The PostgREST settings from the [api] table of supabase/config.toml.
+export interface ApiSettings {
+  file:string;
+  schemas:string[];
+  extraSearchPath:string[];
+  // The lines of the settings, for the findings
+  lines:{ schemas?:number, extraSearchPath?:number };
+}
+
+// When `schemas` is left out, the Supabase CLI exposes public and graphql_public.
+export async function readApiSettings(path = supabaseConfigFile):Promise<ApiSettings> {
+  const toml = parseToml(await readFile(path, 'utf8'), path);
+  const list = (key:string, fallback:string[]) => {
+    const entry = toml[key];
+    if (entry && (!Array.isArray(entry.value) || entry.value.some(v => typeof v !== 'string'))) {
+      throw new Error(`${path}:${entry.line}: ${key} must be an array of strings`);
+    }
+    return (entry?.value as string[] | undefined) ?? fallback;
+  };
+  return {
+    file: path,
+    schemas: list('api.schemas', ['public', 'graphql_public']),
+    extraSearchPath: list('api.extra_search_path', ['public', 'extensions']),
+    lines: {
+      ...(toml['api.schemas'] ? { schemas: toml['api.schemas'].line } : {}),
+      ...(toml['api.extra_search_path'] ? { extraSearchPath: toml['api.extra_search_path'].line } : {}),
+    },
+  };
+}
+
+// Checks a list of schemas exposed by PostgREST against the zones: every exposed
+// zone must be in it, and no internal zone or `public`. Other schemas, such as
+// graphql_public, are reported as warnings. `source` names the setting in the
+// messages, and `at` is added to every finding.
+export function exposedSchemaFindings(schemas:string[], config:ZoneConfig, source:string, at:Partial<Finding> = {}):Finding[] {
+  const findings:Finding[] = [];
+  const zones = new Map(config.schemas.map(zone => [zone.schema, zone]));
+  for (const zone of config.schemas.filter(z => z.exposed && !schemas.includes(z.schema))) {
+    findings.push({
+      rule: 'api-zone-not-exposed',
+      severity: 'error',
+      schema: zone.schema,
+      kind: 'schema',
+      message: `${source} does not expose the zone "${zone.schema}"`,
+      ...at,
+    });
+  }
+  for (const schema of schemas) {
+    const zone = zones.get(schema);
+    if (zone && !zone.exposed) {
+      findings.push({
+        rule: 'api-exposes-internal-zone',
+        severity: 'error',
+        schema,
+        kind: 'schema',
+        message: `${source} exposes "${schema}", which is an internal zone`,
+        ...at,
+      });
+    } else if (!zone) {
+      findings.push({
+        rule: 'api-exposes-unzoned-schema',
+        severity: schema === 'public' ? 'error' : 'warning',
+        schema,
+        kind: 'schema',
+        message: `${source} exposes "${schema}", which is not a zone`,
+        ...at,
+      });
+    }
+  }
+  return findings;
+}
+
+// Checks the [api] settings of supabase/config.toml against the zones. The extra
+// search_path of every request must not include `public` or an internal zone.
+export function checkApiSettings(settings:ApiSettings, config:ZoneConfig):Finding[] {
+  const at = (line?:number) => ({ file: settings.file, ...(line ? { line } : {}) });
+  const findings = exposedSchemaFindings(settings.schemas, config, '[api] schemas', at(settings.lines.schemas));
+  const internal = new Set(config.schemas.filter(zone => !zone.exposed).map(zone => zone.schema));
+  for (const schema of settings.extraSearchPath.filter(s => s === 'public' || internal.has(s))) {
+    findings.push({
+      rule: 'api-search-path-unsafe',
+      severity: 'error',
+      schema,
+      kind: 'schema',
+      message: `[api] extra_search_path includes "${schema}", which ${schema === 'public' ? 'is not a zone' : 'is an internal zone'}`,
+      ...at(settings.lines.extraSearchPath),
+    });
+  }
+  return findings;
+}
@@ -0,0 +1,52 @@
+export type Severity = 'error' | 'warning' | 'info';
+
+export type ObjectKind =
+  | 'schema'
+  | 'table'
+  | 'view'
+  | 'materialized view'
+  | 'sequence'
+  | 'column'
+  | 'function'
+  | 'procedure'
+  | 'type'
+  | 'role';
+
+// A single problem reported by a check. Only `rule`, `severity` and `message`
+// are always present; the rest describe the object the finding is about.
+export interface Finding {
+  rule:string;
+  severity:Severity;
+  message:string;
+  schema?:string;
+  object?:string;
+  kind?:ObjectKind;
+  grantee?:string;
+  privilege?:string;
+  // The role memberships through which the grantee holds the privilege, from the
+  // grantee to the role named in the grant, e.g. ['reporting', 'service_role'].
+  chain?:string[];
+  // SQL statements that would correct the problem. They are never run by the
+  // library; see remediation.ts for writing them to a migration for review.
+  fix?:string;
+  // Where the problem is in a SQL file, for findings of the offline linter
+  file?:string;
+  line?:number;
+}
+
+export function formatFinding(finding:Finding) {
+  const location = finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''}: ` : '';
+  return `${location}[${finding.rule}] ${finding.message}`;
+}
+
+export function formatFindings(findings:Finding[]) {
+  return findings.map(formatFinding).join('\n');
+}
+
+export function hasErrors(findings:Finding[]) {
+  return findings.some(f => f.severity === 'error');
+}
+
+export function routineKind(prokind:string):ObjectKind {
+  return prokind === 'p' ? 'procedure' : 'function';
+}
@@ -0,0 +1,258 @@
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Finding } from './findings.js';
+import { migrationTimestamp } from './remediation.js';
+import { quoteIdent, quoteLiteral } from './sql.js';
+import { zoneOwner, zoneRoles, type Zone, type ZoneConfig } from './zones.js';
+
+// The declarative schema setup SQL, relative to the project root.
+export const schemaSetupFile = 'supabase/schemas/00000000000000_schema setup.sql';
+
+export const migrationsDirectory = 'supabase/migrations';
+
+const setupMigration = /^\d{14}_schema setup\.sql$/;
+
+// The declarative file and the latest `<timestamp>_schema setup.sql` migration in
+// `dir`, which must both match the generated SQL. Earlier migrations have been
+// applied and are left as they are.
+export async function schemaSetupFiles(dir = migrationsDirectory):Promise<string[]> {
+  const migrations = (await readdir(dir).catch(() => [])).filter(name => setupMigration.test(name)).sort();
+  return [schemaSetupFile, join(dir, migrations.at(-1) ?? '00000000000000_schema setup.sql')];
+}
+
+const rule = '-- =============================================================================';
+
+function heading(...lines:string[]) {
+  return [rule, ...lines.map(l => l ? `-- ${l}` : '--'), rule];
+}
+
+// Always quotes the identifier, unlike quoteIdent. Only used where the committed
+// migrations have always quoted it, so that the generated SQL stays the same.
+function alwaysQuoted(name:string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function roleList(roles:string[]) {
+  return roles.map(quoteIdent).join(', ');
+}
+
+function zoneSql(zone:Zone, owner:string) {
+  const schema = quoteIdent(zone.schema);
+  const roles = roleList(zone.roles);
+  const forOwner = `ALTER DEFAULT PRIVILEGES FOR ROLE ${quoteIdent(owner)} IN SCHEMA ${schema}`;
+  const lines = [
+    ...heading(`${zone.schema.toUpperCase()} SCHEMA`),
+    `CREATE SCHEMA IF NOT EXISTS ${schema};`,
+    `ALTER SCHEMA ${alwaysQuoted(zone.schema)} OWNER TO ${alwaysQuoted(owner)};`,
+    '',
+    '-- Usage',
+    `REVOKE ALL ON SCHEMA ${schema} FROM public;`,
+    ...(zone.roles.length ? [`GRANT USAGE ON SCHEMA ${schema} TO ${roles};`] : []),
+    '',
+    '-- Default privileges for TABLES (and views)',
+    '',
+    ...(zone.roles.length ? [forOwner, `GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO ${roles};`, ''] : []),
+    '-- Default privileges for SEQUENCES',
+    '',
+    ...(zone.roles.length ? [forOwner, `GRANT USAGE, SELECT ON SEQUENCES TO ${roles};`, ''] : []),
+    '-- Default privileges for ROUTINES',
+    '',
+    `REVOKE EXECUTE ON ALL ROUTINES IN SCHEMA ${schema} FROM public;`,
+    '',
+    forOwner,
+    'REVOKE EXECUTE ON ROUTINES FROM public;',
+    '',
+    ...(zone.roles.length ? [forOwner, `GRANT EXECUTE ON ROUTINES TO ${roles};`, ''] : []),
+    '-- Default privileges for TYPES',
+    '',
+    ...(zone.roles.length ? [forOwner, `GRANT USAGE ON TYPES TO ${roles};`, ''] : []),
+  ];
+  if (zone.comment) {
+    lines.push('-- Documentation', '', `COMMENT ON SCHEMA ${schema} IS`, `  ${quoteLiteral(zone.comment)};`, '');
+  }
+  return lines;
+}
+
+// Generates the idempotent schema setup SQL for the zones. The output is what
+// should be committed to both of the `schemaSetupFiles()`.
+export function generateSchemaSetupSql(config:ZoneConfig) {
+  const owner = quoteIdent(zoneOwner(config));
+  const lines = [
+    ...heading('FROM 00000000000000_schema setup.sql'),
+    '--',
+    '-- This migration transitions to a zone-based least-privilege security model in',
+    '-- accordance with the associated ADR. It is idempotent (can be rerun safely).',
+    '-- The most recent version of this migration should always be the same as the',
+    '-- schema setup sql file in the supabase/schemas directory.',
+    '--',
+    '-- It is generated from the zone configuration by generateSchemaSetupSql();',
+    '-- change the configuration and regenerate it rather than editing it by hand.',
+    '',
+    ...heading(
+      'DEFAULT EXECUTE PRIVILEGE',
+      `Remove default privileges for ROUTINES created by ${zoneOwner(config)} user`,
+      'This seems to be necessary if default privileges in schemas are additive;',
+      'you can\'t revoke a default privilege that is granted at a higher level.',
+    ),
+    `ALTER DEFAULT PRIVILEGES FOR ROLE ${owner}`,
+    'REVOKE EXECUTE ON ROUTINES FROM public;',
+    '',
+  ];
+  const searchPaths = Object.entries(config.searchPaths ?? {});
+  if (searchPaths.length) {
+    lines.push(...heading('SET SEARCH PATH FOR ROLES'));
+    for (const [role, path] of searchPaths) {
+      lines.push(`ALTER ROLE ${quoteIdent(role)} SET search_path = ${path.map(quoteIdent).join(', ')};`);
+    }
+    lines.push('');
+  }
+  const roles = zoneRoles(config).filter(role => role !== zoneOwner(config));
+  lines.push(
+    ...heading('PUBLIC SCHEMA', 'Application objects belong in a zone, so only the owner creates objects here.'),
+    `REVOKE CREATE ON SCHEMA public FROM ${['PUBLIC', ...roles.map(quoteIdent)].join(', ')};`,
+    '',
+  );
+  for (const zone of config.schemas) {
+    lines.push(...zoneSql(zone, zoneOwner(config)));
+  }
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// Compares the committed setup SQL files with the generated SQL. Paths are
+// relative to the current working directory unless absolute.
+export async function checkSchemaSetupFiles(config:ZoneConfig, paths?:string[]):Promise<Finding[]> {
+  const expected = generateSchemaSetupSql(config).split('\n');
+  const findings:Finding[] = [];
+  for (const path of paths ?? await schemaSetupFiles()) {
+    let actual:string[];
+    try {
+      actual = (await readFile(path, 'utf8')).split('\n');
+    } catch {
+      findings.push({ rule: 'schema-setup-drift', severity: 'error', object: path, message: `Schema setup file "${path}" is missing` });
+      continue;
+    }
+    const line = expected.findIndex((l, i) => actual[i] !== l);
+    if (line >= 0 || actual.length !== expected.length) {
+      const at = line >= 0 ? line : Math.min(actual.length, expected.length);
+      findings.push({
+        rule: 'schema-setup-drift',
+        severity: 'error',
+        object: path,
+        message: `Schema setup file "${path}" differs from the generated SQL at line ${at + 1}: expected "${expected[at] ?? ''}", found "${actual[at] ?? ''}"`,
+      });
+    }
+  }
+  return findings;
+}
+
+// Writes the generated SQL to the declarative file and, when it differs from the
+// latest schema setup migration, to a new migration in `dir`, so that databases
+// that applied the earlier one get the change too. Returns the paths written.
+export async function writeSchemaSetupFiles(config:ZoneConfig, dir = migrationsDirectory, date = new Date()) {
+  const sql = generateSchemaSetupSql(config);
+  const [declarative, latest] = await schemaSetupFiles(dir) as [string, string];
+  const written:string[] = [];
+  if (await readFile(declarative, 'utf8').catch(() => undefined) !== sql) {
+    await writeFile(declarative, sql);
+    written.push(declarative);
+  }
+  if (await readFile(latest, 'utf8').catch(() => undefined) !== sql) {
+    const path = join(dir, `${migrationTimestamp(date)}_schema setup.sql`);
+    await writeFile(path, sql, { flag: 'wx' });
+    written.push(path);
+  }
+  return written;
+}
+
+function literalArray(values:string[]) {
+  return `ARRAY[${values.map(quoteLiteral).join(', ')}]::text[]`;
+}
+
+// Generates the opt-in event trigger that enforces the zone rules while objects
+// are created, instead of reporting them afterwards: new tables in exposed zones
+// get RLS (forced where the zone requires it), and DDL that disables it, makes a
+// routine in an exposed zone SECURITY DEFINER or leaves an object in a zone owned
+// by a role other than the zone owner is rejected. The function is installed in
+// `schema`, which should be an internal zone.
+export function generateEventTriggerSql(config:ZoneConfig, schema = 'private') {
+  const owner = zoneOwner(config);
+  const fn = `${quoteIdent(schema)}.enforce_zone_rules()`;
+  const exposed = config.schemas.filter(zone => zone.exposed);
+  return [
+    ...heading(
+      'ZONE EVENT TRIGGER',
+      '',
+      'Enforces the zone rules when objects are created or altered. It is optional',
+      'and idempotent; remove it with DROP EVENT TRIGGER enforce_zone_rules.',
+      '',
+      'It is generated from the zone configuration by generateEventTriggerSql().',
+    ),
+    `CREATE OR REPLACE FUNCTION ${fn}`,
+    'RETURNS event_trigger',
+    'LANGUAGE plpgsql',
+    'SET search_path = \'\'',
+    'AS $$',
+    'DECLARE',
+    '  command record;',
+    '  owner text;',
+    '  rls boolean;',
+    '  forced boolean;',
+    'BEGIN',
+    '  FOR command IN',
+    '    SELECT * FROM pg_catalog.pg_event_trigger_ddl_commands()',
+    `    WHERE schema_name = ANY (${literalArray(config.schemas.map(zone => zone.schema))})`,
+    '      AND NOT in_extension',
+    '  LOOP',
+    '    -- Default privileges only apply to objects created by the zone owner',
+    '    owner := CASE command.classid',
+    '      WHEN \'pg_catalog.pg_class\'::pg_catalog.regclass THEN (SELECT pg_catalog.pg_get_userbyid(relowner) FROM pg_catalog.pg_class WHERE oid = command.objid)',
+    '      WHEN \'pg_catalog.pg_proc\'::pg_catalog.regclass THEN (SELECT pg_catalog.pg_get_userbyid(proowner) FROM pg_catalog.pg_proc WHERE oid = command.objid)',
+    '      WHEN \'pg_catalog.pg_type\'::pg_catalog.regclass THEN (SELECT pg_catalog.pg_get_userbyid(typowner) FROM pg_catalog.pg_type WHERE oid = command.objid)',
+    '    END;',
+    `    IF owner <> ${quoteLiteral(owner)} THEN`,
+    `      RAISE EXCEPTION '% "%" is owned by "%" instead of "%"', pg_catalog.initcap(command.object_type), command.object_identity, owner, ${quoteLiteral(owner)}`,
+    '        USING ERRCODE = \'insufficient_privilege\',',
+    `        HINT = ${quoteLiteral(`Create it as ${owner}, e.g. after SET ROLE ${quoteIdent(owner)}.`)};`,
+    '    END IF;',
+    '',
+    ...(exposed.length ? [
+      `    CONTINUE WHEN command.schema_name <> ALL (${literalArray(exposed.map(zone => zone.schema))});`,
+      '',
+      '    IF command.object_type IN (\'function\', \'procedure\')',
+      '      AND (SELECT prosecdef FROM pg_catalog.pg_proc WHERE oid = command.objid) THEN',
+      '      RAISE EXCEPTION \'Routine "%" is SECURITY DEFINER, which is not allowed in the exposed zone "%"\', command.object_identity, command.schema_name',
+      '        USING ERRCODE = \'insufficient_privilege\',',
+      '        HINT = \'Use SECURITY INVOKER, or move the routine to a zone that is not exposed.\';',
+      '    END IF;',
+      '',
+      '    CONTINUE WHEN command.object_type <> \'table\';',
+      '    SELECT relrowsecurity, relforcerowsecurity INTO rls, forced',
+      '    FROM pg_catalog.pg_class WHERE oid = command.objid AND relkind IN (\'r\', \'p\');',
+      '    -- forced is also true when the zone does not require it',
+      `    forced := forced OR command.schema_name <> ALL (${literalArray(exposed.filter(zone => zone.forceRLS).map(zone => zone.schema))});`,
+      '    IF command.command_tag IN (\'CREATE TABLE\', \'CREATE TABLE AS\', \'SELECT INTO\') THEN',
+      '      -- A table cannot be created with RLS, so it is enabled right away',
+      '      IF NOT (rls AND forced) THEN',
+      '        EXECUTE pg_catalog.format(\'ALTER TABLE %s ENABLE ROW LEVEL SECURITY%s\', command.object_identity,',
+      '          CASE WHEN forced THEN \'\' ELSE \', FORCE ROW LEVEL SECURITY\' END);',
+      '      END IF;',
+      '    ELSIF NOT rls THEN',
+      '      RAISE EXCEPTION \'Table "%" does not have RLS enabled\', command.object_identity',
+      '        USING ERRCODE = \'insufficient_privilege\',',
+      '        HINT = pg_catalog.format(\'ALTER TABLE %s ENABLE ROW LEVEL SECURITY;\', command.object_identity);',
+      '    ELSIF NOT forced THEN',
+      '      RAISE EXCEPTION \'Table "%" does not have RLS forced\', command.object_identity',
+      '        USING ERRCODE = \'insufficient_privilege\',',
+      '        HINT = pg_catalog.format(\'ALTER TABLE %s FORCE ROW LEVEL SECURITY;\', command.object_identity);',
+      '    END IF;',
+    ] : []),
+    '  END LOOP;',
+    'END;',
+    '$$;',
+    '',
+    'DROP EVENT TRIGGER IF EXISTS enforce_zone_rules;',
+    'CREATE EVENT TRIGGER enforce_zone_rules ON ddl_command_end',
+    `EXECUTE FUNCTION ${fn};`,
+    '',
+  ].join('\n');
+}
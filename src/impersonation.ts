@@ -0,0 +1,73 @@
+import type { Client, DatabaseError, QueryResultRow } from 'pg';
+import { quoteIdent } from './sql.js';
+
+// The JWT claims that PostgREST makes available to policies through
+// request.jwt.claims, e.g. for auth.uid() and auth.jwt().
+export interface JwtClaims {
+  sub?:string;
+  role?:string;
+  app_metadata?:Record<string, unknown>;
+  user_metadata?:Record<string, unknown>;
+  [claim:string]:unknown;
+}
+
+export type AttemptResult<R extends QueryResultRow = QueryResultRow> =
+  | { ok:true, rows:R[], rowCount:number }
+  | { ok:false, error:DatabaseError };
+
+// Runs queries as a role inside the transaction opened by withRole. Every query
+// runs in its own savepoint, so a query that is rejected does not abort the
+// transaction and later queries still run.
+export class RoleSession {
+  protected client: Client;
+  readonly role: string;
+  private savepoints = 0;
+
+  constructor(client: Client, role:string) {
+    this.client = client;
+    this.role = role;
+  }
+
+  async attempt<R extends QueryResultRow = QueryResultRow>(sql:string, params:unknown[] = []):Promise<AttemptResult<R>> {
+    const savepoint = `role_session_${++this.savepoints}`;
+    await this.client.query(`SAVEPOINT ${savepoint}`);
+    try {
+      const res = await this.client.query<R>(sql, params);
+      await this.client.query(`RELEASE SAVEPOINT ${savepoint}`);
+      return { ok: true, rows: res.rows, rowCount: res.rowCount ?? 0 };
+    } catch (err) {
+      await this.client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      return { ok: false, error: err as DatabaseError };
+    }
+  }
+
+  async query<R extends QueryResultRow = QueryResultRow>(sql:string, params:unknown[] = []):Promise<R[]> {
+    const result = await this.attempt<R>(sql, params);
+    if (!result.ok) throw result.error;
+    return result.rows;
+  }
+}
+
+// Opens a transaction that behaves like a PostgREST request for the session's
+// role: SET LOCAL ROLE and request.jwt.claims. The transaction is always rolled
+// back, so nothing done as the role is kept. The role claim is always the
+// session's role, so a claim cannot make policies see another role.
+export async function withRole<S extends RoleSession, T>(client:Client, session:S, claims:JwtClaims, fn:(session:S) => Promise<T>):Promise<T> {
+  await client.query('BEGIN');
+  try {
+    await client.query(`SET LOCAL ROLE ${quoteIdent(session.role)}`);
+    await client.query(`SELECT set_config('request.jwt.claims', $1, true)`, [JSON.stringify({ ...claims, role: session.role })]);
+    return await fn(session);
+  } finally {
+    await client.query('ROLLBACK');
+  }
+}
+
+// SQLSTATE 42501, raised both for missing privileges and for rows rejected by RLS.
+export function isInsufficientPrivilege(error:DatabaseError) {
+  return error.code === '42501';
+}
+
+export function isRejectedByPolicy(error:DatabaseError) {
+  return isInsufficientPrivilege(error) && /row-level security/i.test(error.message);
+}
@@ -1,202 +1,240 @@
-import { expect } from 'vitest';
 import type { Client } from 'pg';
+import { describe, expect, test } from 'vitest';
+import { SupabaseAuditor } from './auditor.js';
+import type { FindingException } from './exceptions.js';
+import { checkApiSettings, readApiSettings, supabaseConfigFile } from './exposure.js';
+import { formatFindings, type Finding } from './findings.js';
+import { checkSchemaSetupFiles } from './generator.js';
+import { RoleSession, isInsufficientPrivilege, isRejectedByPolicy, withRole, type JwtClaims } from './impersonation.js';
+import type { Rule } from './rules.js';
+import { readSnapshot, snapshotFile } from './snapshot.js';
+import { planSecuritySuite, takeInventory, type SuiteTest } from './suite.js';
+import type { ZoneConfig } from './zones.js';
+
+export * from './core.js';
+
+// Fails the current test with every finding listed in the message, followed by
+// the SQL that would fix them.
+export function expectNoFindings(findings:Finding[], title:string) {
+  const indent = (text:string) => text.split('\n').join('\n  ');
+  const fixes = [...new Set(findings.flatMap(f => f.fix ? [f.fix] : []))];
+  const fix = fixes.length ? `Suggested fix:\n  ${indent(fixes.join('\n'))}\n` : '';
+  expect(findings.length, `${title}:\n  ${indent(formatFindings(findings))}\n${fix}`).toBe(0);
+}
+
+// A RoleSession with assertions for behavioral RLS tests.
+export class RoleAssertions extends RoleSession {
+
+  async assertCanSelect(sql:string, rowCount:number, params:unknown[] = []) {
+    const result = await this.attempt(sql, params);
+    if (!result.ok) expect.fail(`"${this.role}" cannot run "${sql}": ${result.error.message}`);
+    expect(result.rows.length, `Rows visible to "${this.role}" for "${sql}"`).toBe(rowCount);
+  }
 
-export class SupabaseTests {
-  private client: Client;
+  async assertRejectedByPolicy(sql:string, params:unknown[] = []) {
+    const result = await this.attempt(sql, params);
+    if (result.ok) expect.fail(`"${sql}" was not rejected by RLS for "${this.role}"`);
+    expect(isRejectedByPolicy(result.error), `Expected an RLS violation, got: ${result.error.message}`).toBe(true);
+  }
 
-  constructor(client: Client) {
-    this.client = client;
+  // Updates and deletes are not rejected by RLS; rows hidden by a policy are simply not affected.
+  async assertAffectsRows(sql:string, rowCount:number, params:unknown[] = []) {
+    const result = await this.attempt(sql, params);
+    if (!result.ok) expect.fail(`"${this.role}" cannot run "${sql}": ${result.error.message}`);
+    expect(result.rowCount, `Rows affected for "${this.role}" by "${sql}"`).toBe(rowCount);
   }
 
-  async setup() {
-    await this.client.connect();
+  async assertPermissionDenied(sql:string, params:unknown[] = []) {
+    const result = await this.attempt(sql, params);
+    if (result.ok) expect.fail(`"${this.role}" was allowed to run "${sql}"`);
+    expect(isInsufficientPrivilege(result.error) && !isRejectedByPolicy(result.error), `Expected permission denied, got: ${result.error.message}`).toBe(true);
   }
-  
-  async teardown() {
-    await this.client.end();
+
+  // e.g. assertCannotExecute('private.rotate_keys()')
+  async assertCannotExecute(call:string, params:unknown[] = []) {
+    await this.assertPermissionDenied(`SELECT ${call}`, params);
+  }
+}
+
+// Vitest adapters for the checks in SupabaseAuditor.
+export class SupabaseTests extends SupabaseAuditor {
+  // Like expectNoFindings, but findings covered by an exception are accepted.
+  protected expectNoFindings(findings:Finding[], title:string) {
+    expectNoFindings(this.applyExceptions(findings), title);
+  }
+
+  override async asRole<T>(role:string, claims:JwtClaims, fn:(session:RoleAssertions) => Promise<T>):Promise<T> {
+    return withRole(this.client, new RoleAssertions(this.client, role), claims, fn);
   }
 
   async assertRLSEnabledForTablesAndMaterializedViews(schema:string) {
-    // This SQL query selects the names of tables in the schema where RLS is NOT enabled.
-    // Note: Regular views (relkind = 'v') cannot have RLS and inherit security from base tables.
-    // Note: Materialized views (relkind = 'm') cannot have RLS enabled - it's not supported in PostgreSQL.
-    const query = `
-      SELECT
-        c.relname AS table_name
-      FROM
-        pg_catalog.pg_class c
-      JOIN
-        pg_catalog.pg_namespace n ON n.oid = c.relnamespace
-      WHERE
-        n.nspname = $1
-        AND c.relkind = 'r'
-        AND c.relrowsecurity IS FALSE;
-    `;
-  
-    try {
-      const res = await this.client.query(query, [schema]) as { rows: { table_name: string, object_type: string }[] };
-      const objectsWithoutRLS = res.rows.map(row => `${row.table_name}`);
-  
-      // If objectsWithoutRLS is empty, the test passes.
-      // If it contains any names, the test fails, and we list them.
-      expect(objectsWithoutRLS.length, `Tables without RLS:\n  ${objectsWithoutRLS.join('\n  ')}\n`).toBe(0);
-  
-    } catch (err) {
-      throw err;
-    }
+    this.expectNoFindings(await this.checkRLSEnabledForTablesAndMaterializedViews(schema), 'Tables without RLS');
   }
 
   async assertNoSecurityDefinersRoutines(schema:string) {
-    const query = `
-      SELECT routine_name FROM information_schema.routines
-      WHERE routine_schema = $1
-      AND security_type = 'DEFINER';
-    `;
-    const res = await this.client.query(query, [schema]) as { rows: { routine_name: string }[] };
-    const routines = res.rows.map(row => row.routine_name);
-    expect(routines.length).toBe(0);
-  }
-
-  async assertAccessToSchema(schema:string, roles:string[]) {
-    const query = `
-      SELECT rolname
-      FROM pg_roles
-      WHERE has_schema_privilege(rolname, $1, 'USAGE')
-      ORDER BY rolname ASC;
-    `;
-    const res = await this.client.query(query, [schema]) as { rows: { rolname: string }[] };
-    const grantees = res.rows.map(row => row.rolname);
-    expect(grantees).toEqual(roles.sort());
+    this.expectNoFindings(await this.checkNoSecurityDefinersRoutines(schema), 'Security definer routines found');
+  }
+
+  async assertSecurityDefinerSearchPath(schema:string) {
+    this.expectNoFindings(await this.checkSecurityDefinerSearchPath(schema), 'Security definer routines without a safe search_path found');
+  }
+
+  async assertViewsAreSecurityInvoker(schema:string, allowed:string[] = []) {
+    this.expectNoFindings(await this.checkViewsAreSecurityInvoker(schema, allowed), 'Views that bypass RLS found');
+  }
+
+  async assertNoExposedMaterializedViews(schema:string, roles:string[], allowed:string[] = []) {
+    this.expectNoFindings(await this.checkNoExposedMaterializedViews(schema, roles, allowed), 'Exposed materialized views found');
+  }
+
+  async assertAccessToSchema(schema:string, roles:string[], tolerated:string[] = []) {
+    this.expectNoFindings(await this.checkAccessToSchema(schema, roles, tolerated), `Unexpected access to schema "${schema}"`);
   }
 
   async assertDefaultPrivilegesForTables(schema:string, roles:string[]) {
-    const query = `
-      SELECT DISTINCT
-        acl.grantee::regrole::text AS grantee
-      FROM pg_catalog.pg_default_acl d
-      JOIN pg_catalog.pg_namespace n ON n.oid = d.defaclnamespace
-      CROSS JOIN LATERAL aclexplode(d.defaclacl) AS acl
-      WHERE n.nspname = $1
-        AND d.defaclobjtype = 'r'
-        AND acl.privilege_type = 'SELECT'
-      ORDER BY grantee ASC;
-    `;
-    const res = await this.client.query(query, [schema]) as { rows: { grantee: string }[] };
-    const grantees = res.rows.map(row => row.grantee);
-    expect(grantees).toEqual(roles.sort());
+    this.expectNoFindings(await this.checkDefaultPrivilegesForTables(schema, roles), 'Unexpected default privileges for tables');
   }
 
   async assertNoTablesWithExtraRoles(schema:string, roles:string[]) {
-    // Get all tables in the schema and ensure only the provided roles have privileges
-    const query = `
-      SELECT
-        t.table_name,
-        grantee,
-        privilege_type
-      FROM information_schema.table_privileges t
-      WHERE t.table_schema = $1
-      ORDER BY t.table_name, grantee
-    `;
-    const res = await this.client.query(query, [schema]) as { rows: { table_name: string, grantee: string, privilege_type: string }[] };
-
-    // For each table, get a set of grantees who are NOT in the allowed roles
-    const allowedRolesSet = new Set(roles.map(r => r.toLowerCase()));
-    const extras: { table: string, grantee: string, privilege: string }[] = [];
-    for (const row of res.rows) {
-      const grantee = row.grantee.toLowerCase();
-      if (!allowedRolesSet.has(grantee)) {
-        extras.push({
-          table: row.table_name,
-          grantee: row.grantee,
-          privilege: row.privilege_type
-        });
-      }
-    }
+    this.expectNoFindings(await this.checkNoTablesWithExtraRoles(schema, roles), 'Extra privileges found');
+  }
 
-    expect(extras.length, `Extra privileges found:\n${extras.map(e => `  Table "${e.table}" has "${e.privilege}" granted to "${e.grantee}"`).join('\n')}\n`).toBe(0);
+  async assertDefaultPrivilegesForSequences(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkDefaultPrivilegesForSequences(schema, roles), 'Unexpected default privileges for sequences');
+  }
+
+  async assertDefaultPrivilegesForTypes(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkDefaultPrivilegesForTypes(schema, roles), 'Unexpected default privileges for types');
+  }
+
+  async assertNoTypesWithExtraRoles(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkNoTypesWithExtraRoles(schema, roles), 'Extra type privileges found');
+  }
+
+  async assertTablePrivileges(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkTablePrivileges(schema, roles), 'Missing table privileges');
+  }
+
+  async assertSequencePrivileges(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkSequencePrivileges(schema, roles), 'Missing sequence privileges');
+  }
+
+  async assertRoutinePrivileges(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkRoutinePrivileges(schema, roles), 'Missing routine privileges');
+  }
+
+  async assertTypePrivileges(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkTypePrivileges(schema, roles), 'Missing type privileges');
+  }
+
+  async assertNoSequencesWithExtraRoles(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkNoSequencesWithExtraRoles(schema, roles), 'Extra sequence privileges found');
+  }
+
+  async assertNoColumnsWithExtraRoles(schema:string, roles:string[]) {
+    this.expectNoFindings(await this.checkNoColumnsWithExtraRoles(schema, roles), 'Extra column privileges found');
   }
 
   async assertDefaultPrivilegesForRoutines(schema:string, roles:string[]) {
-    const query = `
-      SELECT DISTINCT
-        acl.grantee::regrole::text AS grantee
-      FROM pg_catalog.pg_default_acl d
-      JOIN pg_catalog.pg_namespace n ON n.oid = d.defaclnamespace
-      CROSS JOIN LATERAL aclexplode(d.defaclacl) AS acl
-      WHERE n.nspname = $1
-        AND d.defaclobjtype IN ('f', 'p')
-        AND acl.privilege_type = 'EXECUTE'
-      ORDER BY grantee ASC;
-    `;
-
-    const res = await this.client.query(query, [schema]) as { rows: { grantee: string }[] };
-    const grantees = res.rows.map(row => row.grantee);
-    expect(grantees).toEqual(roles.sort());
+    this.expectNoFindings(await this.checkDefaultPrivilegesForRoutines(schema, roles), 'Unexpected default privileges for routines');
   }
 
   async assertNoRoutinesWithExtraRoles(schema:string, roles:string[]) {
-    // Get all routines (functions and procedures) in the schema and their privileges
-    const query = `
-      SELECT
-        p.proname AS routine_name,
-        acl.grantee::regrole::text AS grantee,
-        acl.privilege_type
-      FROM pg_catalog.pg_proc p
-      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
-      LEFT JOIN LATERAL aclexplode(p.proacl) AS acl ON TRUE
-      WHERE n.nspname = $1
-      ORDER BY p.proname, grantee
-    `;
-    const res = await this.client.query(query, [schema]) as { rows: { routine_name: string, grantee: string | null, privilege_type: string | null }[] };
-
-    const allowedRolesSet = new Set(roles.map(r => r.toLowerCase()));
-    const extras: { routine: string, grantee: string, privilege: string }[] = [];
-    for (const row of res.rows) {
-      // grantee can be null if there are no explicit grants
-      if (row.grantee && row.privilege_type) {
-        const grantee = row.grantee.toLowerCase();
-        if (!allowedRolesSet.has(grantee)) {
-          extras.push({
-            routine: row.routine_name,
-            grantee: row.grantee,
-            privilege: row.privilege_type
-          });
-        }
-      }
-    }
+    this.expectNoFindings(await this.checkNoRoutinesWithExtraRoles(schema, roles), 'Extra routine privileges found');
+  }
+
+  async assertRLSPolicies(schema:string, roles:string[], options:{ requireForceRLS?:boolean } = {}) {
+    this.expectNoFindings(await this.checkRLSPolicies(schema, roles, options), 'RLS policy problems found');
+  }
+
+  async assertObjectOwnership(schema:string, owner = 'postgres') {
+    this.expectNoFindings(await this.checkObjectOwnership(schema, owner), 'Objects with an unexpected owner');
+  }
+
+  async assertPublications(schema:string, options:{ exposed?:boolean } = {}) {
+    this.expectNoFindings(await this.checkPublications(schema, options), `Tables in "${schema}" published unsafely`);
+  }
+
+  async assertStorage() {
+    this.expectNoFindings(await this.checkStorage(), 'Unsafe storage access found');
+  }
+
+  async assertNoCreateOnSchemas(schemas:string[], roles:string[] = ['anon', 'authenticated']) {
+    this.expectNoFindings(await this.checkNoCreateOnSchemas(schemas, roles), 'Roles that can create objects found');
+  }
+
+  async assertNoPublicExecute(schema:string) {
+    this.expectNoFindings(await this.checkNoPublicExecute(schema), 'Routines executable by PUBLIC found');
+  }
+
+  async assertPublicSchema(config:ZoneConfig) {
+    this.expectNoFindings(await this.checkPublicSchema(config), 'The public schema is in use');
+  }
+
+  async assertRule(rule:Rule, schema:string) {
+    this.expectNoFindings(await this.checkRule(rule, schema), `Rule "${rule.id}" failed in "${schema}"`);
+  }
 
-    expect(
-      extras.length,
-      `Extra routine privileges found:\n${extras.map(
-        e => `  Routine "${e.routine}" has "${e.privilege}" granted to "${e.grantee}"`
-      ).join('\n')}\n`
-    ).toBe(0);
-  }
-
-  async assertValidSearchPath(role:string) {
-    const query = `
-      SELECT
-        s.setconfig
-      FROM pg_db_role_setting s
-      JOIN pg_roles r ON r.oid = s.setrole
-      WHERE r.rolname = $1
-    `;
-    const res = await this.client.query(query, [role]) as { rows: { setconfig: string[] }[] };
-  
-    // 1. Verify that a custom search_path is actually set for this role
-    expect(res.rows.length).toBeGreaterThan(0);
-
-    const config = res.rows[0]!.setconfig || [];
-    const searchPathEntry = config.find(c => c.toLowerCase().startsWith('search_path='));
-
-    // 2. Ensure the search_path setting exists in the role config
-    expect(searchPathEntry).toBeDefined();
-
-    // 3. Logic Check: Must contain 'api' and MUST NOT contain 'public'
-    const pathValue = (searchPathEntry as string).split('=')[1]!;
-    const schemas = pathValue.replace(/["']/g,'').split(',').map(s => s.trim().toLowerCase());
-
-    expect(schemas).toContain('api');
-    expect(schemas).not.toContain('public');
-  }
-}
\ No newline at end of file
+  async assertRules(schema:string, options:{ exposed?:boolean } = {}) {
+    this.expectNoFindings(await this.checkRules(schema, options), `Rules failed in "${schema}"`);
+  }
+
+  async assertValidSearchPath(role:string, expected?:string[]) {
+    this.expectNoFindings(await this.checkValidSearchPath(role, expected), `Invalid search_path for role "${role}"`);
+  }
+
+  async assertSchemaSetupFiles(config:ZoneConfig, paths?:string[]) {
+    this.expectNoFindings(await checkSchemaSetupFiles(config, paths), 'Schema setup SQL is out of date');
+  }
+
+  // Warnings fail too, e.g. for graphql_public or another exposed schema that is
+  // not a zone; accept them with an exception if they are intended.
+  async assertApiSettings(config:ZoneConfig, path = supabaseConfigFile) {
+    this.expectNoFindings(checkApiSettings(await readApiSettings(path), config), `${path} does not match the zones`);
+  }
+
+  async assertPostgrestSchemas(config:ZoneConfig, path = supabaseConfigFile) {
+    this.expectNoFindings(await this.checkPostgrestSchemas(config, await readApiSettings(path)), 'pgrst.db_schemas does not match the zones');
+  }
+
+  async assertSnapshot(path = snapshotFile) {
+    this.expectNoFindings(await this.checkSnapshot(await readSnapshot(path)), 'Access has changed since the security snapshot (run `supabase-security snapshot` to accept the changes)');
+  }
+
+  // Fails on errors only, like the CLI; warnings are reported by the individual assertions.
+  async verifyZones(config:ZoneConfig) {
+    // auditZones has already applied the exceptions
+    const findings = await this.auditZones(config);
+    expectNoFindings(findings.filter(f => f.severity === 'error'), 'Zone checks failed');
+  }
+
+  // Fails if an exception has expired, or has not covered a finding in any of the
+  // assertions run so far, e.g. in afterAll.
+  assertExceptionsUsed() {
+    expectNoFindings(this.checkExceptions(), 'Stale exceptions');
+  }
+}
+
+function registerSuiteTests(tests:SuiteTest[], depth = 0) {
+  for (const title of new Set(tests.map(t => t.path[depth]!))) {
+    const matching = tests.filter(t => t.path[depth] === title);
+    const leaf = matching.find(t => t.path.length === depth + 1);
+    if (leaf) {
+      test(title, () => expectNoFindings(leaf.findings.filter(f => f.severity === 'error'), `${leaf.path.join(' ')} failed`));
+    } else {
+      describe(title, () => registerSuiteTests(matching, depth + 1));
+    }
+  }
+}
+
+// Registers one test per object in the zones and rule, per role and per zone,
+// so that the report shows which objects were checked and new objects show up
+// by themselves. It queries the database while the tests are collected, so call
+// it with a connected client at the top level of a test file or in an async
+// describe block. Like verifyZones, only errors fail a test, and stale
+// exceptions are left to assertExceptionsUsed.
+export async function defineSecuritySuite(client:Client, config:ZoneConfig, options:{ exceptions?:FindingException[], rules?:Rule[] } = {}) {
+  const auditor = new SupabaseAuditor(client, options);
+  const inventory = await takeInventory(client, config);
+  registerSuiteTests(planSecuritySuite(config, inventory, await auditor.auditZones(config), options.rules));
+}
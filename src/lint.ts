@@ -0,0 +1,309 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Finding } from './findings.js';
+import { parseSearchPath, qualify } from './sql.js';
+import { zoneOwner, type ZoneConfig } from './zones.js';
+
+// The directories linted by default, like the Supabase CLI applies them.
+export const lintDirectories = ['supabase/migrations', 'supabase/schemas'];
+
+export interface SqlStatement {
+  // The statement without comments, with whitespace collapsed and the bodies of
+  // dollar-quoted strings replaced by $$ $$ (function bodies are not linted).
+  text:string;
+  // The line the statement starts on, counting from 1
+  line:number;
+}
+
+// Splits a SQL script into statements. Semicolons inside strings, quoted
+// identifiers, comments and dollar-quoted bodies do not end a statement.
+export function splitStatements(sql:string):SqlStatement[] {
+  const statements:SqlStatement[] = [];
+  let text = '';
+  let line = 1;
+  let start = 0;
+  let i = 0;
+  const append = (chunk:string) => {
+    if (!start) start = line;
+    text += chunk;
+  };
+  // Copies a quoted token verbatim, counting the lines inside it
+  const quoted = (end:number) => {
+    const token = sql.slice(i, end);
+    append(token);
+    line += token.split('\n').length - 1;
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const c = sql[i]!;
+    const rest = sql.slice(i, i + 2);
+    if (rest === '--') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (rest === '/*') {
+      // Block comments nest in PostgreSQL
+      let depth = 0;
+      do {
+        if (sql.startsWith('/*', i)) { depth++; i += 2; }
+        else if (sql.startsWith('*/', i)) { depth--; i += 2; }
+        else { if (sql[i] === '\n') line++; i++; }
+      } while (depth > 0 && i < sql.length);
+      text += ' ';
+    } else if (c === '\'' || c === '"') {
+      // In E'...' strings a backslash escapes the next character, e.g. E'it\'s'
+      const escapes = c === '\'' && /[Ee]/.test(sql[i - 1] ?? '') && !/[\w$]/.test(sql[i - 2] ?? '');
+      let end = i + 1;
+      while (end < sql.length && !(sql[end] === c && sql[end + 1] !== c)) end += sql[end] === c || (escapes && sql[end] === '\\') ? 2 : 1;
+      quoted(end + 1);
+    } else if (c === '$' && !/[\w$]/.test(sql[i - 1] ?? '') && /^\$(?:[A-Za-z_]\w*)?\$/.test(sql.slice(i))) {
+      const tag = /^\$(?:[A-Za-z_]\w*)?\$/.exec(sql.slice(i))![0];
+      const close = sql.indexOf(tag, i + tag.length);
+      const end = close === -1 ? sql.length : close + tag.length;
+      append('$$ $$');
+      line += sql.slice(i, end).split('\n').length - 1;
+      i = end;
+    } else if (c === ';') {
+      if (text.trim()) statements.push({ text: text.replace(/\s+/g, ' ').trim(), line: start });
+      text = '';
+      start = 0;
+      i++;
+    } else if (/\s/.test(c)) {
+      if (c === '\n') line++;
+      text += ' ';
+      i++;
+    } else {
+      append(c);
+      i++;
+    }
+  }
+  if (text.trim()) statements.push({ text: text.replace(/\s+/g, ' ').trim(), line: start });
+  return statements;
+}
+
+const ident = String.raw`(?:"(?:[^"]|"")+"|[A-Za-z_][\w$]*)`;
+const qualifiedName = String.raw`${ident}(?:\s*\.\s*${ident})?`;
+
+function unquote(name:string) {
+  return name.startsWith('"') ? name.slice(1, -1).replace(/""/g, '"') : name.toLowerCase();
+}
+
+// Splits a comma-separated list, ignoring commas inside parentheses and quotes.
+function splitList(list:string) {
+  const items:string[] = [];
+  let depth = 0;
+  let quote = '';
+  let item = '';
+  for (const c of list) {
+    if (quote) { if (c === quote) quote = ''; }
+    else if (c === '"' || c === '\'') quote = c;
+    else if (c === '(') depth++;
+    else if (c === ')') depth--;
+    else if (c === ',' && depth === 0) { items.push(item.trim()); item = ''; continue; }
+    item += c;
+  }
+  if (item.trim()) items.push(item.trim());
+  return items;
+}
+
+// The schema and name of a possibly qualified name. Unqualified names resolve to
+// the first schema of the search_path, or to nothing if the path is empty.
+function parseName(raw:string, searchPath:string[]) {
+  const parts = raw.match(new RegExp(ident, 'g'))!.map(unquote);
+  return parts.length > 1 ? { schema: parts[0], name: parts[1]! } : { schema: searchPath[0], name: parts[0]! };
+}
+
+function parseRole(raw:string) {
+  const role = raw.replace(/^group\s+/i, '');
+  return /^public$/i.test(role) ? 'PUBLIC' : unquote(role);
+}
+
+// The schemas that the objects of a GRANT or REVOKE are in, e.g.
+// `SCHEMA api`, `ALL TABLES IN SCHEMA private` or `TABLE api.todos, notes`.
+function grantSchemas(target:string, searchPath:string[]) {
+  const schemaList = /^(?:all\s+\w+\s+in\s+)?schema\s+(.+)$/i.exec(target);
+  if (schemaList) return splitList(schemaList[1]!).map(unquote);
+  if (/^(?:database|tablespace|language|foreign\s+data\s+wrapper|foreign\s+server|large\s+object|parameter)\b/i.test(target)) return [];
+  const objects = target.replace(/^(?:table|sequence|function|procedure|routine|type|domain)\s+/i, '');
+  return splitList(objects).flatMap(object => {
+    const name = new RegExp(`^${qualifiedName}`).exec(object);
+    const schema = name ? parseName(name[0], searchPath).schema : undefined;
+    return schema ? [schema] : [];
+  });
+}
+
+interface SqlFile {
+  path:string;
+  sql:string;
+}
+
+// Flags risky statements in migration and schema files without a database. The
+// files are linted together, in order, so a table may be created in one file and
+// have RLS enabled in a later one. Unqualified names resolve through the zone
+// owner's search_path, which the migrations run with, until a script changes it
+// with SET search_path.
+export function lintSql(files:SqlFile[], config:ZoneConfig):Finding[] {
+  const owner = zoneOwner(config);
+  const zones = new Map(config.schemas.map(zone => [zone.schema, zone]));
+  const exposed = (schema:string) => schema === 'public' || !!zones.get(schema)?.exposed;
+  const findings:Finding[] = [];
+  const tables = new Map<string, { schema:string, name:string, file:string, line:number }>();
+  const rlsEnabled = new Set<string>();
+
+  for (const file of files) {
+    let searchPath = config.searchPaths?.[owner] ?? ['public'];
+    for (const statement of splitStatements(file.sql)) {
+      const { text, line } = statement;
+      const at = { file: file.path, line };
+      let match:RegExpExecArray | null;
+
+      if ((match = /^set\s+(?:session\s+|local\s+)?search_path\s*(?:to|=)\s*(.+)$/i.exec(text))) {
+        searchPath = parseSearchPath(match[1]!.replace(/'/g, '')).filter(s => s !== '$user');
+      } else if ((match = /set_config\s*\(\s*'search_path'\s*,\s*'([^']*)'/i.exec(text))) {
+        searchPath = parseSearchPath(match[1]!).filter(s => s !== '$user');
+      }
+
+      if ((match = new RegExp(String.raw`^create\s+(?:(?:global|local)\s+)?(temp\s+|temporary\s+|unlogged\s+)?table\s+(?:if\s+not\s+exists\s+)?(${qualifiedName})`, 'i').exec(text))) {
+        const { schema, name } = parseName(match[2]!, searchPath);
+        if (!match[1]?.trim().toLowerCase().startsWith('temp') && schema) {
+          if (schema === 'public') {
+            findings.push({
+              rule: 'lint-table-in-public',
+              severity: 'error',
+              schema,
+              object: name,
+              kind: 'table',
+              message: `Table "${schema}.${name}" is created in "public", outside of the zones`,
+              ...at,
+            });
+          }
+          tables.set(`${schema}.${name}`, { schema, name, ...at });
+        }
+      }
+
+      if ((match = new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?(${qualifiedName})\s+(.*)$`, 'i').exec(text))) {
+        const { schema, name } = parseName(match[1]!, searchPath);
+        const moved = new RegExp(String.raw`^(rename\s+to|set\s+schema)\s+(${ident})$`, 'i').exec(match[2]!);
+        if (moved) {
+          const target = unquote(moved[2]!);
+          const to = /^rename/i.test(moved[1]!) ? { schema, name: target } : { schema: target, name };
+          const table = tables.get(`${schema}.${name}`);
+          if (table) tables.set(`${to.schema}.${to.name}`, { ...table, schema: to.schema!, name: to.name });
+          if (rlsEnabled.has(`${schema}.${name}`)) rlsEnabled.add(`${to.schema}.${to.name}`);
+          tables.delete(`${schema}.${name}`);
+          rlsEnabled.delete(`${schema}.${name}`);
+        }
+        if (/\benable\s+row\s+level\s+security\b/i.test(match[2]!)) rlsEnabled.add(`${schema}.${name}`);
+        if (/\bdisable\s+row\s+level\s+security\b/i.test(match[2]!)) {
+          findings.push({
+            rule: 'lint-disable-rls',
+            severity: 'error',
+            ...(schema ? { schema } : {}),
+            object: name,
+            kind: 'table',
+            message: `RLS is disabled on table "${schema ? `${schema}.` : ''}${name}"`,
+            ...at,
+          });
+        }
+      }
+
+      if ((match = /^drop\s+table\s+(?:if\s+exists\s+)?(.+?)(?:\s+(?:cascade|restrict))?$/i.exec(text))) {
+        for (const item of splitList(match[1]!)) {
+          const { schema, name } = parseName(item, searchPath);
+          tables.delete(`${schema}.${name}`);
+          rlsEnabled.delete(`${schema}.${name}`);
+        }
+      }
+
+      if ((match = new RegExp(String.raw`^(?:create\s+(?:or\s+replace\s+)?|alter\s+)(function|procedure|routine)\s+(${qualifiedName})`, 'i').exec(text))
+        && /\bsecurity\s+definer\b/i.test(text)) {
+        const { schema, name } = parseName(match[2]!, searchPath);
+        if (schema && zones.get(schema)?.exposed) {
+          findings.push({
+            rule: 'lint-security-definer',
+            severity: 'error',
+            schema,
+            object: name,
+            kind: match[1]!.toLowerCase() === 'procedure' ? 'procedure' : 'function',
+            message: `${match[1]!.charAt(0).toUpperCase()}${match[1]!.slice(1).toLowerCase()} "${schema}.${name}" is SECURITY DEFINER in the exposed schema "${schema}"`,
+            ...at,
+          });
+        }
+      }
+
+      // GRANT ... ON ... TO ..., also as a default privilege (IN SCHEMA is then
+      // part of the ALTER DEFAULT PRIVILEGES clause)
+      const defaults = /^alter\s+default\s+privileges\s+(?:for\s+(?:role|user)\s+.+?\s+)?(?:in\s+schema\s+(.+?)\s+)?(grant\s.*)$/i.exec(text);
+      const grant = /^grant\s+.+?\s+on\s+(.+?)\s+to\s+(.+?)(?:\s+with\s+grant\s+option)?(?:\s+granted\s+by\s+.+)?$/i.exec(defaults ? defaults[2]! : text);
+      if (grant) {
+        const schemas = defaults
+          ? defaults[1] ? splitList(defaults[1]).map(unquote) : []
+          : grantSchemas(grant[1]!, searchPath);
+        const grantees = splitList(grant[2]!).map(parseRole);
+        for (const schema of new Set(schemas)) {
+          const zone = zones.get(schema);
+          if (!zone) continue;
+          const allowed = [...zone.roles, owner, ...config.platformRoles ?? []];
+          for (const grantee of grantees.filter(g => !allowed.includes(g))) {
+            findings.push({
+              rule: 'lint-grant-outside-zone',
+              severity: 'error',
+              schema,
+              grantee,
+              message: `${defaults ? 'Default privileges grant' : 'GRANT gives'} "${grantee}" access to objects in "${schema}", which is only for ${zone.roles.map(r => `"${r}"`).join(', ')}`,
+              ...at,
+            });
+          }
+        }
+      }
+
+      if ((match = /^alter\s+(?:role|user|database)\s+(.+?)\s+set\s+search_path\s*(?:to|=)\s*(.+)$/i.exec(text))) {
+        const schemas = parseSearchPath(match[2]!.replace(/'/g, ''));
+        if (schemas.includes('public')) {
+          const target = match[1]!.replace(/\s+in\s+database\s+.*$/i, '');
+          findings.push({
+            rule: 'lint-search-path-public',
+            severity: 'error',
+            object: unquote(target),
+            kind: 'role',
+            message: `search_path for "${unquote(target)}" includes "public": ${match[2]}`,
+            ...at,
+          });
+        }
+      }
+    }
+  }
+
+  for (const [key, table] of tables) {
+    if (exposed(table.schema) && !rlsEnabled.has(key)) {
+      findings.push({
+        rule: 'lint-table-without-rls',
+        severity: 'error',
+        schema: table.schema,
+        object: table.name,
+        kind: 'table',
+        message: `Table "${table.schema}.${table.name}" is created without ENABLE ROW LEVEL SECURITY`,
+        fix: `ALTER TABLE ${qualify(table.schema, table.name)} ENABLE ROW LEVEL SECURITY;`,
+        file: table.file,
+        line: table.line,
+      });
+    }
+  }
+  return findings;
+}
+
+// The .sql files in the directories, each directory in file name order, like
+// the Supabase CLI applies migrations. Missing directories are skipped.
+export async function sqlFiles(directories = lintDirectories) {
+  const paths:string[] = [];
+  for (const directory of directories) {
+    const entries = await readdir(directory).catch(() => [] as string[]);
+    paths.push(...entries.filter(name => name.endsWith('.sql')).sort().map(name => join(directory, name)));
+  }
+  return paths;
+}
+
+export async function lintFiles(paths:string[], config:ZoneConfig):Promise<Finding[]> {
+  const files = await Promise.all(paths.map(async path => ({ path, sql: await readFile(path, 'utf8') })));
+  return lintSql(files, config);
+}
@@ -0,0 +1,184 @@
+import { formatFinding, type Finding } from './findings.js';
+import { escapeXml } from './reporters.js';
+import type { SnapshotObject, SecuritySnapshot } from './snapshot.js';
+
+export type MatrixFormat = 'markdown' | 'html';
+
+export const matrixFormats:MatrixFormat[] = ['markdown', 'html'];
+
+// The letters of psql's \dp, in its order, so the matrix reads like the ACLs
+// in psql.
+const privilegeLetters:Record<string, string> = {
+  INSERT: 'a',
+  SELECT: 'r',
+  UPDATE: 'w',
+  DELETE: 'd',
+  TRUNCATE: 'D',
+  REFERENCES: 'x',
+  TRIGGER: 't',
+  MAINTAIN: 'm',
+  EXECUTE: 'X',
+  USAGE: 'U',
+  CREATE: 'C',
+};
+
+const legend = 'Privileges use the letters of psql\'s `\\dp`: a INSERT, r SELECT, w UPDATE, d DELETE, D TRUNCATE, x REFERENCES, t TRIGGER, m MAINTAIN, X EXECUTE, U USAGE, C CREATE, and * marks WITH GRANT OPTION. The owner holds every privilege.';
+
+const fixedColumns = ['Object', 'Owner', 'RLS', 'Policies', 'Security'];
+
+// A cell and the numbers of the findings it violates, counted from 1.
+interface MatrixCell {
+  text:string;
+  violations:number[];
+}
+
+interface MatrixTable {
+  schema:string;
+  columns:string[];
+  rows:MatrixCell[][];
+}
+
+function privileges(granted:string[]) {
+  const order = Object.keys(privilegeLetters);
+  return granted
+    .map(p => p.split(' WITH GRANT OPTION'))
+    .sort(([a], [b]) => order.indexOf(a!) - order.indexOf(b!))
+    .map(([name, grantOption]) => `${privilegeLetters[name!] ?? name}${grantOption === undefined ? '' : '*'}`)
+    .join('');
+}
+
+function security(object:SnapshotObject) {
+  if (object.securityDefiner !== undefined) return object.securityDefiner ? 'SECURITY DEFINER' : 'invoker';
+  if (object.securityInvoker !== undefined) return object.securityInvoker ? 'security_invoker' : 'definer (owner\'s rights)';
+  return '';
+}
+
+// Policies by command, e.g. "SELECT: read_own; ALL: admin"
+function policies(object:SnapshotObject) {
+  const byCommand = new Map<string, string[]>();
+  for (const policy of object.policies ?? []) {
+    byCommand.set(policy.command, [...byCommand.get(policy.command) ?? [], `${policy.name}${policy.permissive ? '' : ' (restrictive)'}`]);
+  }
+  return [...byCommand].map(([command, names]) => `${command}: ${names.join(', ')}`).join('; ');
+}
+
+// The row of the object a finding is about: routines match every overload, and
+// column findings fall back to their table when the column has no row.
+function findRow(objects:SnapshotObject[], finding:Finding) {
+  const { schema, object, kind } = finding;
+  const matches = (o:SnapshotObject, name:string) => o.schema === schema && (o.name === name || o.name.startsWith(`${name}(`));
+  if (!object) return -1;
+  if (kind === 'column') {
+    const column = objects.findIndex(o => matches(o, object));
+    return column >= 0 ? column : objects.findIndex(o => matches(o, object.split('.')[0]!) && o.kind !== 'column');
+  }
+  return objects.findIndex(o => matches(o, object) && (!kind || o.kind === kind));
+}
+
+// The column a rule is about; the findings of other rules are shown in the
+// column of their grantee, or else in the first column.
+function ruleColumn(rule:string) {
+  if (rule === 'object-owner') return 'Owner';
+  if (rule.startsWith('rls-') || rule === 'publication-without-rls') return 'RLS';
+  if (rule.startsWith('policy-') || rule === 'auth-rls-initplan' || rule === 'multiple-permissive-policies') return 'Policies';
+  if (rule.includes('definer')) return 'Security';
+  return undefined;
+}
+
+function buildTables(snapshot:SecuritySnapshot, findings:Finding[]):MatrixTable[] {
+  return snapshot.schemas.map(schema => {
+    const objects = snapshot.objects.filter(o => o.schema === schema);
+    const schemaFindings = findings.map((finding, i) => ({ finding, number: i + 1 })).filter(f => f.finding.schema === schema);
+    const roles = [...new Set([
+      ...objects.flatMap(o => Object.keys(o.grants)),
+      ...schemaFindings.flatMap(f => f.finding.grantee && !ruleColumn(f.finding.rule) ? [f.finding.grantee] : []),
+    ])].sort();
+    const columns = [...fixedColumns, ...roles];
+    const rows = objects.map(object => [
+      `${object.kind} ${object.name}`,
+      object.owner,
+      object.rls ? (!object.rls.enabled ? 'disabled' : object.rls.forced ? 'forced' : 'enabled') : '',
+      policies(object),
+      security(object),
+      ...roles.map(role => privileges(object.grants[role] ?? [])),
+    ].map((text):MatrixCell => ({ text, violations: [] })));
+    for (const { finding, number } of schemaFindings) {
+      const row = findRow(objects, finding);
+      if (row < 0) continue;
+      const column = columns.indexOf(ruleColumn(finding.rule) ?? finding.grantee ?? '');
+      rows[row]![Math.max(column, 0)]!.violations.push(number);
+    }
+    return { schema, columns, rows };
+  });
+}
+
+function markdownCell(cell:MatrixCell) {
+  const text = cell.text.replace(/\|/g, '\\|');
+  return cell.violations.length ? `**${text || 'none'}** (${cell.violations.map(n => `#${n}`).join(', ')})` : text;
+}
+
+// A role × object matrix of the snapshot's schemas with the cells that violate
+// a finding in bold, and the findings listed below it.
+export function formatMatrixMarkdown(snapshot:SecuritySnapshot, findings:Finding[]) {
+  const lines = ['# Access matrix', '', legend, ''];
+  for (const table of buildTables(snapshot, findings)) {
+    lines.push(`## Schema \`${table.schema}\``, '');
+    lines.push(`| ${table.columns.join(' | ')} |`, `| ${table.columns.map(() => '---').join(' | ')} |`);
+    lines.push(...table.rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`), '');
+  }
+  lines.push('## Violations', '');
+  lines.push(...findings.length ? findings.map((f, i) => `${i + 1}. ${f.severity}: ${formatFinding(f)}`) : ['None.']);
+  return lines.join('\n') + '\n';
+}
+
+function htmlCell(cell:MatrixCell, findings:Finding[]) {
+  if (!cell.violations.length) return `<td>${escapeXml(cell.text)}</td>`;
+  const severity = cell.violations.some(n => findings[n - 1]!.severity === 'error') ? 'error' : 'warning';
+  const title = cell.violations.map(n => findings[n - 1]!.message).join('\n');
+  const links = cell.violations.map(n => `<a href="#finding-${n}">${n}</a>`).join(', ');
+  return `<td class="${severity}" title="${escapeXml(title)}">${escapeXml(cell.text)} <sup>${links}</sup></td>`;
+}
+
+// The same matrix as a standalone HTML page, with the violating cells colored
+// by severity.
+export function formatMatrixHtml(snapshot:SecuritySnapshot, findings:Finding[]) {
+  const lines = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>Access matrix</title>',
+    '<style>',
+    '  body { font-family: system-ui, sans-serif; margin: 2em; }',
+    '  table { border-collapse: collapse; margin-bottom: 2em; }',
+    '  th, td { border: 1px solid #ccc; padding: 0.3em 0.6em; text-align: left; font-family: ui-monospace, monospace; }',
+    '  td.error { background: #fdd; }',
+    '  td.warning { background: #ffe9b3; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    '<h1>Access matrix</h1>',
+    `<p>${escapeXml(legend.replace(/`/g, ''))}</p>`,
+  ];
+  for (const table of buildTables(snapshot, findings)) {
+    lines.push(`<h2>Schema ${escapeXml(table.schema)}</h2>`, '<table>');
+    lines.push(`<tr>${table.columns.map(c => `<th>${escapeXml(c)}</th>`).join('')}</tr>`);
+    lines.push(...table.rows.map(row => `<tr>${row.map(cell => htmlCell(cell, findings)).join('')}</tr>`));
+    lines.push('</table>');
+  }
+  lines.push('<h2>Violations</h2>');
+  if (findings.length) {
+    lines.push('<ol>', ...findings.map((f, i) => `<li id="finding-${i + 1}">${f.severity}: ${escapeXml(formatFinding(f))}</li>`), '</ol>');
+  } else {
+    lines.push('<p>None.</p>');
+  }
+  lines.push('</body>', '</html>');
+  return lines.join('\n') + '\n';
+}
+
+export function formatMatrix(snapshot:SecuritySnapshot, findings:Finding[], format:MatrixFormat) {
+  switch (format) {
+    case 'markdown': return formatMatrixMarkdown(snapshot, findings);
+    case 'html': return formatMatrixHtml(snapshot, findings);
+  }
+}
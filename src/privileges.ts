@@ -0,0 +1,281 @@
+import type { Finding, ObjectKind } from './findings.js';
+import { qualify, quoteIdent, quoteRole } from './sql.js';
+
+// How each kind of object (keyed by catalog and relkind, prokind or typtype) is
+// named, altered, granted to, and which default privileges
+// (pg_default_acl.defaclobjtype) apply to it.
+export const objectTypes:Record<string, { kind:ObjectKind, label:string, keyword:string, grantKeyword:string, defaults:string }> = {
+  'class:r': { kind: 'table', label: 'Table', keyword: 'TABLE', grantKeyword: 'TABLE', defaults: 'r' },
+  'class:p': { kind: 'table', label: 'Table', keyword: 'TABLE', grantKeyword: 'TABLE', defaults: 'r' },
+  'class:v': { kind: 'view', label: 'View', keyword: 'VIEW', grantKeyword: 'TABLE', defaults: 'r' },
+  'class:m': { kind: 'materialized view', label: 'Materialized view', keyword: 'MATERIALIZED VIEW', grantKeyword: 'TABLE', defaults: 'r' },
+  'class:f': { kind: 'table', label: 'Foreign table', keyword: 'FOREIGN TABLE', grantKeyword: 'TABLE', defaults: 'r' },
+  'class:S': { kind: 'sequence', label: 'Sequence', keyword: 'SEQUENCE', grantKeyword: 'SEQUENCE', defaults: 'S' },
+  'proc:f': { kind: 'function', label: 'Function', keyword: 'FUNCTION', grantKeyword: 'FUNCTION', defaults: 'f' },
+  'proc:p': { kind: 'procedure', label: 'Procedure', keyword: 'PROCEDURE', grantKeyword: 'PROCEDURE', defaults: 'f' },
+  'proc:a': { kind: 'function', label: 'Aggregate', keyword: 'AGGREGATE', grantKeyword: 'FUNCTION', defaults: 'f' },
+  'proc:w': { kind: 'function', label: 'Function', keyword: 'FUNCTION', grantKeyword: 'FUNCTION', defaults: 'f' },
+  'type:c': { kind: 'type', label: 'Type', keyword: 'TYPE', grantKeyword: 'TYPE', defaults: 'T' },
+  'type:d': { kind: 'type', label: 'Domain', keyword: 'DOMAIN', grantKeyword: 'DOMAIN', defaults: 'T' },
+  'type:e': { kind: 'type', label: 'Type', keyword: 'TYPE', grantKeyword: 'TYPE', defaults: 'T' },
+  'type:r': { kind: 'type', label: 'Type', keyword: 'TYPE', grantKeyword: 'TYPE', defaults: 'T' },
+};
+
+// pg_policy.polcmd
+export const policyCommands:Record<string, string> = { r: 'SELECT', a: 'INSERT', w: 'UPDATE', d: 'DELETE', '*': 'ALL' };
+
+// Each kind of object whose effective privileges can be checked. `objects` selects
+// one row per ACL entry (oid, name, type, args, column_name, grantee,
+// privilege_type) for the schema in $1, using the built-in default ACL when
+// nothing was granted explicitly. `check` confirms the privilege with the
+// matching has_*_privilege function, which accounts for role inheritance.
+export const privilegeTargets = {
+  table: {
+    rule: 'table-extra-grant',
+    objects: `
+      SELECT c.oid, c.relname AS name, 'class:' || c.relkind AS type, NULL AS args, NULL AS column_name, NULL::int2 AS attnum,
+        acl.grantee, acl.privilege_type
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      CROSS JOIN LATERAL aclexplode(coalesce(c.relacl, acldefault('r', c.relowner))) AS acl
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p', 'v', 'm', 'f')`,
+    check: 'has_table_privilege(ch.role_oid, g.oid, g.privilege_type)',
+  },
+  sequence: {
+    rule: 'sequence-extra-grant',
+    objects: `
+      SELECT c.oid, c.relname AS name, 'class:' || c.relkind AS type, NULL AS args, NULL AS column_name, NULL::int2 AS attnum,
+        acl.grantee, acl.privilege_type
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      CROSS JOIN LATERAL aclexplode(coalesce(c.relacl, acldefault('s', c.relowner))) AS acl
+      WHERE n.nspname = $1 AND c.relkind = 'S'`,
+    check: 'has_sequence_privilege(ch.role_oid, g.oid, g.privilege_type)',
+  },
+  column: {
+    // Only explicit column grants; table-level grants are checked for the table.
+    rule: 'column-extra-grant',
+    objects: `
+      SELECT c.oid, c.relname AS name, 'class:' || c.relkind AS type, NULL AS args, a.attname AS column_name, a.attnum,
+        acl.grantee, acl.privilege_type
+      FROM pg_catalog.pg_attribute a
+      JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      CROSS JOIN LATERAL aclexplode(a.attacl) AS acl
+      WHERE n.nspname = $1 AND a.attnum > 0 AND NOT a.attisdropped AND a.attacl IS NOT NULL`,
+    check: 'has_column_privilege(ch.role_oid, g.oid, g.attnum, g.privilege_type)',
+  },
+  routine: {
+    // EXECUTE for PUBLIC is reported by checkNoPublicExecute instead, so it is
+    // not reported twice.
+    rule: 'routine-extra-grant',
+    objects: `
+      SELECT p.oid, p.proname AS name, 'proc:' || p.prokind AS type, pg_get_function_identity_arguments(p.oid) AS args,
+        NULL AS column_name, NULL::int2 AS attnum, acl.grantee, acl.privilege_type
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      CROSS JOIN LATERAL aclexplode(coalesce(p.proacl, acldefault('f', p.proowner))) AS acl
+      WHERE n.nspname = $1 AND acl.grantee <> 0`,
+    check: 'has_function_privilege(ch.role_oid, g.oid, g.privilege_type)',
+  },
+  type: {
+    // PostgreSQL grants USAGE on types to PUBLIC by default and the setup SQL keeps
+    // that default (a type only exposes its definition, not data), so grants to
+    // PUBLIC are not reported for types.
+    rule: 'type-extra-grant',
+    objects: `
+      SELECT t.oid, t.typname AS name, 'type:' || t.typtype AS type, NULL AS args, NULL AS column_name, NULL::int2 AS attnum,
+        acl.grantee, acl.privilege_type
+      FROM pg_catalog.pg_type t
+      JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+      CROSS JOIN LATERAL aclexplode(coalesce(t.typacl, acldefault('T', t.typowner))) AS acl
+      WHERE n.nspname = $1 AND acl.grantee <> 0
+        AND t.typtype IN ('c', 'd', 'e', 'r')
+        AND (t.typrelid = 0 OR (SELECT c.relkind FROM pg_catalog.pg_class c WHERE c.oid = t.typrelid) = 'c')`,
+    check: 'has_type_privilege(ch.role_oid, g.oid, g.privilege_type)',
+  },
+};
+
+export type PrivilegeTarget = keyof typeof privilegeTargets;
+
+// Every role that effectively holds each privilege, and the chain of role
+// memberships through which it holds it: [role, group, ..., grantee of the ACL
+// entry]. Superusers bypass privileges entirely and are left out. A grant to
+// PUBLIC is reported once, with the chain ['PUBLIC'].
+export function effectivePrivilegesQuery(target:PrivilegeTarget) {
+  const { objects, check } = privilegeTargets[target];
+  return `
+    WITH RECURSIVE chains(role_oid, via_oid, chain) AS (
+      SELECT r.oid, r.oid, ARRAY[r.rolname::text]
+      FROM pg_catalog.pg_roles r
+      WHERE NOT r.rolsuper
+      UNION ALL
+      SELECT ch.role_oid, m.roleid, ch.chain || pg_get_userbyid(m.roleid)::text
+      FROM chains ch
+      JOIN pg_catalog.pg_auth_members m ON m.member = ch.via_oid
+      WHERE NOT pg_get_userbyid(m.roleid)::text = ANY(ch.chain)
+    ),
+    grants AS (${objects}
+    )
+    SELECT g.name, g.type, g.args, g.column_name, g.privilege_type, 'PUBLIC' AS role, ARRAY['PUBLIC'] AS chain
+    FROM grants g
+    WHERE g.grantee = 0
+    UNION ALL
+    SELECT g.name, g.type, g.args, g.column_name, g.privilege_type, pg_get_userbyid(ch.role_oid), ch.chain
+    FROM grants g
+    JOIN chains ch ON ch.via_oid = g.grantee
+    WHERE g.grantee <> 0 AND ${check}
+    ORDER BY 1, 4, 5, 6;
+  `;
+}
+
+export interface EffectivePrivilegeRow {
+  name:string;
+  type:string;
+  args:string | null;
+  column_name:string | null;
+  privilege_type:string;
+  role:string;
+  chain:string[];
+}
+
+// Turns the rows of effectivePrivilegesQuery into findings for the roles that are
+// not allowed. When a role holds a privilege through several chains, only the
+// shortest one is reported.
+export function effectivePrivilegeFindings(target:PrivilegeTarget, schema:string, rows:EffectivePrivilegeRow[], roles:string[]):Finding[] {
+  const allowed = new Set(roles.map(r => r.toLowerCase()));
+  const shortest = new Map<string, EffectivePrivilegeRow>();
+  for (const row of rows) {
+    if (allowed.has(row.role.toLowerCase())) continue;
+    const key = JSON.stringify([row.name, row.args, row.column_name, row.privilege_type, row.role]);
+    const current = shortest.get(key);
+    if (!current || row.chain.length < current.chain.length) shortest.set(key, row);
+  }
+
+  return [...shortest.values()].map(row => {
+    const type = objectTypes[row.type]!;
+    const objectName = `${qualify(schema, row.name)}${row.args === null ? '' : `(${row.args})`}`;
+    const grantee = row.chain[row.chain.length - 1]!;
+    const label = row.column_name === null ? `${type.label} "${schema}.${row.name}"` : `Column "${schema}.${row.name}.${row.column_name}"`;
+    const through = row.chain.length > 1 && grantee !== 'PUBLIC' ? ` through ${row.chain.map(r => `"${r}"`).join(' → ')}` : '';
+
+    // Revoke the membership when the privilege comes from an allowed role,
+    // otherwise revoke the privilege from the role it was granted to.
+    const privilege = row.column_name === null ? row.privilege_type : `${row.privilege_type} (${quoteIdent(row.column_name)})`;
+    const fix = row.chain.length > 1 && allowed.has(grantee.toLowerCase())
+      ? `REVOKE ${quoteIdent(row.chain[1]!)} FROM ${quoteIdent(row.role)};`
+      : `REVOKE ${privilege} ON ${type.grantKeyword} ${objectName} FROM ${quoteRole(grantee)};`;
+
+    return {
+      rule: privilegeTargets[target].rule,
+      severity: 'error',
+      schema,
+      object: row.column_name === null ? row.name : `${row.name}.${row.column_name}`,
+      kind: row.column_name === null ? type.kind : 'column',
+      grantee: row.role,
+      privilege: row.privilege_type,
+      chain: row.chain,
+      message: `${label} has "${row.privilege_type}" granted to "${row.role}"${through}`,
+      fix,
+    };
+  });
+}
+
+// The objects of each kind in the schema in $1 that every role of the zone should
+// have the full privilege set on (see zonePrivileges). Materialized views are left
+// out, since they cannot have RLS (see checkNoExposedMaterializedViews).
+export const zoneObjects = {
+  table: {
+    rule: 'table-privilege-missing',
+    defaults: ['r'],
+    objects: `
+      SELECT c.oid, c.relname AS name, 'class:' || c.relkind AS type, NULL AS args
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p', 'v', 'f')`,
+    check: 'has_table_privilege(r.oid, o.oid, p.privilege)',
+  },
+  sequence: {
+    rule: 'sequence-privilege-missing',
+    defaults: ['S'],
+    objects: `
+      SELECT c.oid, c.relname AS name, 'class:' || c.relkind AS type, NULL AS args
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1 AND c.relkind = 'S'`,
+    check: 'has_sequence_privilege(r.oid, o.oid, p.privilege)',
+  },
+  routine: {
+    rule: 'routine-privilege-missing',
+    defaults: ['f', 'p'],
+    objects: `
+      SELECT p.oid, p.proname AS name, 'proc:' || p.prokind AS type, pg_get_function_identity_arguments(p.oid) AS args
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = $1`,
+    check: 'has_function_privilege(r.oid, o.oid, p.privilege)',
+  },
+  type: {
+    rule: 'type-privilege-missing',
+    defaults: ['T'],
+    objects: `
+      SELECT t.oid, t.typname AS name, 'type:' || t.typtype AS type, NULL AS args
+      FROM pg_catalog.pg_type t
+      JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = $1
+        AND t.typtype IN ('c', 'd', 'e', 'r')
+        AND (t.typrelid = 0 OR (SELECT c.relkind FROM pg_catalog.pg_class c WHERE c.oid = t.typrelid) = 'c')`,
+    check: 'has_type_privilege(r.oid, o.oid, p.privilege)',
+  },
+};
+
+export type ZoneObjectType = keyof typeof zoneObjects;
+
+// Every privilege in $3 that a role in $2 lacks on an object of the kind.
+export function missingPrivilegesQuery(target:ZoneObjectType) {
+  const { objects, check } = zoneObjects[target];
+  return `
+    WITH objects AS (${objects}
+    )
+    SELECT o.name, o.type, o.args, r.rolname AS role, p.privilege
+    FROM objects o
+    CROSS JOIN pg_catalog.pg_roles r
+    CROSS JOIN unnest($3::text[]) WITH ORDINALITY AS p(privilege, position)
+    WHERE r.rolname = ANY($2) AND NOT ${check}
+    ORDER BY o.name, o.args, r.rolname, p.position;
+  `;
+}
+
+export interface MissingPrivilegeRow {
+  name:string;
+  type:string;
+  args:string | null;
+  role:string;
+  privilege:string;
+}
+
+// One finding per object and role, listing every privilege it is missing.
+export function missingPrivilegeFindings(target:ZoneObjectType, schema:string, rows:MissingPrivilegeRow[]):Finding[] {
+  const grouped = new Map<string, MissingPrivilegeRow[]>();
+  for (const row of rows) {
+    const key = JSON.stringify([row.name, row.args, row.role]);
+    grouped.set(key, [...grouped.get(key) ?? [], row]);
+  }
+  return [...grouped.values()].map(group => {
+    const row = group[0]!;
+    const type = objectTypes[row.type]!;
+    const objectName = `${qualify(schema, row.name)}${row.args === null ? '' : `(${row.args})`}`;
+    const privileges = group.map(r => r.privilege).join(', ');
+    return {
+      rule: zoneObjects[target].rule,
+      severity: 'error',
+      schema,
+      object: row.name,
+      kind: type.kind,
+      grantee: row.role,
+      privilege: privileges,
+      message: `${type.label} "${schema}.${row.name}" does not grant ${privileges} to "${row.role}"`,
+      fix: `GRANT ${privileges} ON ${type.grantKeyword} ${objectName} TO ${quoteRole(row.role)};`,
+    };
+  });
+}
@@ -0,0 +1,47 @@
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { formatFinding, type Finding } from './findings.js';
+
+// Migration timestamps use the same YYYYMMDDHHMMSS format as `supabase migration new`.
+export function migrationTimestamp(date:Date) {
+  return date.toISOString().replace(/\D/g, '').slice(0, 14);
+}
+
+// A finding as one comment line. Object names come from the catalog and may
+// contain line breaks, which would end the comment and turn the rest of the
+// name into SQL, so they are escaped.
+function comment(finding:Finding, prefix = '-- ') {
+  return prefix + formatFinding(finding).replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+}
+
+// Builds a migration from the fixes of the given findings. Each fix is preceded
+// by the finding it corrects, and repeated statements are only written once.
+// Findings without a fix are listed at the end for manual follow-up.
+export function buildRemediationSql(findings:Finding[]) {
+  const seen = new Set<string>();
+  const lines = [
+    '-- Security fixes generated by supabase-security from the findings below.',
+    '-- Review every statement before applying this migration.',
+    '',
+  ];
+  for (const finding of findings) {
+    if (!finding.fix || seen.has(finding.fix)) continue;
+    seen.add(finding.fix);
+    lines.push(comment(finding), finding.fix, '');
+  }
+  const manual = findings.filter(f => !f.fix);
+  if (manual.length) {
+    lines.push('-- These findings have no automatic fix:');
+    lines.push(...manual.map(f => comment(f, '--   ')), '');
+  }
+  return lines.join('\n');
+}
+
+// Writes the fixes to a new migration file for review and returns its path, or
+// undefined if none of the findings has a fix. Nothing is ever applied.
+export async function writeRemediationMigration(findings:Finding[], dir = 'supabase/migrations', date = new Date()) {
+  if (!findings.some(f => f.fix)) return undefined;
+  const path = join(dir, `${migrationTimestamp(date)}_security_fixes.sql`);
+  await writeFile(path, buildRemediationSql(findings), { flag: 'wx' });
+  return path;
+}
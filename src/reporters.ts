@@ -0,0 +1,114 @@
+import { formatFinding, type Finding, type Severity } from './findings.js';
+import { schemaSetupFile } from './generator.js';
+
+export type ReportFormat = 'text' | 'json' | 'junit' | 'sarif';
+
+export const reportFormats:ReportFormat[] = ['text', 'json', 'junit', 'sarif'];
+
+const toolName = 'supabase-security';
+
+function summarize(findings:Finding[]) {
+  const count = (severity:Severity) => findings.filter(f => f.severity === severity).length;
+  return { errors: count('error'), warnings: count('warning'), info: count('info') };
+}
+
+// The schema-qualified name of the object a finding is about, if any.
+function qualifiedName(finding:Finding) {
+  if (finding.object && finding.schema && finding.object !== finding.schema) return `${finding.schema}.${finding.object}`;
+  return finding.object ?? finding.schema;
+}
+
+// Also escapes text for HTML.
+export function escapeXml(value:string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function formatText(findings:Finding[]) {
+  const { errors, warnings, info } = summarize(findings);
+  const lines = findings.map(f => `${f.severity.padEnd(7)} ${formatFinding(f)}`);
+  lines.push(`${findings.length ? '\n' : ''}${errors} error(s), ${warnings} warning(s), ${info} info`);
+  return lines.join('\n') + '\n';
+}
+
+export function formatJson(findings:Finding[]) {
+  return JSON.stringify({ summary: summarize(findings), findings }, null, 2) + '\n';
+}
+
+// One test suite per rule and one test case per finding. Only errors fail, like
+// the exit code of the CLI; warnings and info pass with the finding as output.
+// A clean run produces a single passing test case so the report is never empty.
+export function formatJUnit(findings:Finding[]) {
+  const rules = [...new Set(findings.map(f => f.rule))];
+  const suites = rules.map(rule => {
+    const ruleFindings = findings.filter(f => f.rule === rule);
+    const cases = ruleFindings.map(f => {
+      const name = escapeXml(qualifiedName(f) ?? rule);
+      const result = f.severity === 'error'
+        ? `<failure type="${f.severity}" message="${escapeXml(f.message)}">${escapeXml(formatFinding(f))}</failure>`
+        : `<system-out>${escapeXml(`${f.severity}: ${formatFinding(f)}`)}</system-out>`;
+      return `    <testcase classname="${escapeXml(rule)}" name="${name}">\n      ${result}\n    </testcase>`;
+    });
+    const failures = ruleFindings.filter(f => f.severity === 'error').length;
+    return `  <testsuite name="${escapeXml(rule)}" tests="${cases.length}" failures="${failures}">\n${cases.join('\n')}\n  </testsuite>`;
+  });
+  if (!suites.length) {
+    suites.push(`  <testsuite name="${toolName}" tests="1" failures="0">\n    <testcase classname="${toolName}" name="audit"/>\n  </testsuite>`);
+  }
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${toolName}" tests="${Math.max(findings.length, 1)}" failures="${summarize(findings).errors}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+const sarifLevels:Record<Severity, string> = { error: 'error', warning: 'warning', info: 'note' };
+
+// Code scanning only annotates results with a file, so findings from the
+// database are placed on the first line of `fallbackFile`, the declarative schema
+// setup file by default; the object stays in their logical location.
+export function formatSarif(findings:Finding[], fallbackFile = schemaSetupFile) {
+  const rules = [...new Set(findings.map(f => f.rule))];
+  const results = findings.map(f => {
+    const name = qualifiedName(f);
+    const region = f.file ? (f.line ? { region: { startLine: f.line } } : {}) : { region: { startLine: 1 } };
+    return {
+      ruleId: f.rule,
+      ruleIndex: rules.indexOf(f.rule),
+      level: sarifLevels[f.severity],
+      message: { text: f.message },
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: f.file ?? fallbackFile }, ...region },
+        ...(name ? { logicalLocations: [{ fullyQualifiedName: name, ...(f.kind ? { kind: f.kind } : {}) }] } : {}),
+      }],
+      properties: {
+        ...(f.grantee ? { grantee: f.grantee } : {}),
+        ...(f.privilege ? { privilege: f.privilege } : {}),
+      },
+    };
+  });
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: toolName, rules: rules.map(id => ({ id })) } },
+      results,
+    }],
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+export function formatReport(findings:Finding[], format:ReportFormat) {
+  switch (format) {
+    case 'text': return formatText(findings);
+    case 'json': return formatJson(findings);
+    case 'junit': return formatJUnit(findings);
+    case 'sarif': return formatSarif(findings);
+  }
+}
@@ -0,0 +1,205 @@
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Client } from 'pg';
+import type { Finding, Severity } from './findings.js';
+import { qualify, quoteIdent } from './sql.js';
+
+// What a rule makes of one row of its query. `rule`, `severity` and `schema`
+// are filled in from the rule and the zone unless given.
+export type RuleFinding = Omit<Finding, 'rule' | 'severity' | 'schema'> & Partial<Pick<Finding, 'severity' | 'schema'>>;
+
+// A check that is not built in: a catalog query that selects the violations in
+// a zone, and how each row becomes a finding. Register rules with the `rules`
+// option of SupabaseAuditor (or SupabaseTests) or with registerRule().
+export interface Rule<Row = Record<string, unknown>> {
+  // The rule of the findings, e.g. "updated-at-trigger-missing"
+  id:string;
+  severity:Severity;
+  // Only run the rule in exposed zones
+  exposed?:boolean;
+  // Run once for every zone, with the schema of the zone as $1.
+  query:string;
+  map(row:Row, schema:string):RuleFinding;
+}
+
+export async function runRule(client:Client, rule:Rule, schema:string):Promise<Finding[]> {
+  const res = await client.query(rule.query, [schema]) as { rows: Record<string, unknown>[] };
+  return res.rows.map(row => ({ rule: rule.id, severity: rule.severity, schema, ...rule.map(row, schema) }));
+}
+
+const severities:Severity[] = ['error', 'warning', 'info'];
+
+function validateRule(value:unknown, where:string):Rule {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error(`${where}: expected a rule`);
+  const rule = value as Record<string, unknown>;
+  if (typeof rule.id !== 'string' || !rule.id) throw new Error(`${where}: "id" is required`);
+  if (!severities.includes(rule.severity as Severity)) throw new Error(`${where}: "severity" must be one of ${severities.join(', ')}`);
+  if (typeof rule.query !== 'string') throw new Error(`${where}: "query" must be a string`);
+  if (typeof rule.map !== 'function') throw new Error(`${where}: "map" must be a function`);
+  return rule as unknown as Rule;
+}
+
+// Imports a JavaScript module whose default export is an array of rules. The
+// name `supabase` stands for the built-in supabaseLinterRules.
+export async function loadRules(path:string):Promise<Rule[]> {
+  if (path === 'supabase') return supabaseLinterRules;
+  const { default: rules } = await import(pathToFileURL(resolve(path)).href) as { default?:unknown };
+  if (!Array.isArray(rules)) throw new Error(`${path}: expected a default export with an array of rules`);
+  return rules.map((rule, i) => validateRule(rule, `${path}[${i}]`));
+}
+
+// The lints of Supabase's database linter (splinter) that the built-in checks
+// do not cover, ported to rules. Pass them as the `rules` option to run them
+// in every zone.
+
+// 0001 unindexed_foreign_keys. Policies that join or filter on a foreign key
+// scan the whole table without an index, so those are reported as warnings.
+const unindexedForeignKey:Rule<{ table_name:string, constraint_name:string, columns:string[], used_by_policy:boolean }> = {
+  id: 'unindexed-foreign-key',
+  severity: 'info',
+  query: `
+    SELECT
+      c.relname AS table_name,
+      con.conname AS constraint_name,
+      ARRAY(
+        SELECT a.attname
+        FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, position)
+        JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+        ORDER BY k.position
+      ) AS columns,
+      EXISTS (
+        SELECT 1
+        FROM pg_catalog.pg_policy pol
+        JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = ANY (con.conkey)
+        WHERE pol.polrelid = con.conrelid
+          AND concat_ws(' ', pg_get_expr(pol.polqual, pol.polrelid), pg_get_expr(pol.polwithcheck, pol.polrelid)) ~ ('\\m' || a.attname || '\\M')
+      ) AS used_by_policy
+    FROM pg_catalog.pg_constraint con
+    JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1
+      AND con.contype = 'f'
+      AND NOT EXISTS (
+        SELECT 1
+        FROM pg_catalog.pg_index i
+        WHERE i.indrelid = con.conrelid
+          AND i.indisvalid
+          AND (string_to_array(i.indkey::text, ' ')::int2[])[1:cardinality(con.conkey)] = con.conkey
+      )
+    ORDER BY c.relname, con.conname;
+  `,
+  map: (row, schema) => ({
+    ...(row.used_by_policy ? { severity: 'warning' } : {}),
+    object: row.table_name,
+    kind: 'table',
+    message: `Foreign key "${row.constraint_name}" on "${schema}.${row.table_name}" (${row.columns.join(', ')}) has no index${row.used_by_policy ? ', and a policy of the table uses it' : ''}`,
+    fix: `CREATE INDEX ON ${qualify(schema, row.table_name)} (${row.columns.map(quoteIdent).join(', ')});`,
+  }),
+};
+
+// 0002 auth_users_exposed. A view runs with its owner's privileges unless it is
+// security_invoker, so a view on auth.users hands every user's email and
+// metadata to the roles that can read it.
+const authUsersExposed:Rule<{ view_name:string, kind:string, roles:string[] }> = {
+  id: 'auth-users-exposed',
+  severity: 'error',
+  exposed: true,
+  query: `
+    SELECT DISTINCT
+      c.relname AS view_name,
+      c.relkind AS kind,
+      ARRAY(
+        SELECT r.rolname FROM pg_catalog.pg_roles r
+        WHERE r.rolname IN ('anon', 'authenticated')
+          AND has_table_privilege(r.oid, c.oid, 'SELECT')
+        ORDER BY r.rolname
+      ) AS roles
+    FROM pg_catalog.pg_class c
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_catalog.pg_rewrite rw ON rw.ev_class = c.oid
+    JOIN pg_catalog.pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = rw.oid
+    WHERE n.nspname = $1
+      AND c.relkind IN ('v', 'm')
+      AND d.refobjid = to_regclass('auth.users')
+      AND (c.relkind = 'm' OR NOT EXISTS (
+        SELECT 1 FROM unnest(c.reloptions) AS o
+        WHERE lower(o) IN ('security_invoker=true', 'security_invoker=on', 'security_invoker=1', 'security_invoker=yes')
+      ))
+    ORDER BY c.relname;
+  `,
+  map: (row, schema) => ({
+    ...(!row.roles.length ? { severity: 'warning' } : {}),
+    object: row.view_name,
+    kind: row.kind === 'm' ? 'materialized view' : 'view',
+    message: row.roles.length
+      ? `${row.kind === 'm' ? 'Materialized view' : 'View'} "${schema}.${row.view_name}" exposes auth.users to ${row.roles.map(r => `"${r}"`).join(' and ')}`
+      : `${row.kind === 'm' ? 'Materialized view' : 'View'} "${schema}.${row.view_name}" reads auth.users with its owner's privileges`,
+  }),
+};
+
+// 0003 auth_rls_initplan. auth.uid() and friends are evaluated for every row
+// unless they are wrapped in a subselect, which PostgreSQL runs only once.
+const authRlsInitplan:Rule<{ table_name:string, policy_name:string, expression:string }> = {
+  id: 'auth-rls-initplan',
+  severity: 'warning',
+  query: `
+    SELECT c.relname AS table_name, pol.polname AS policy_name,
+      concat_ws(' ', pg_get_expr(pol.polqual, pol.polrelid), pg_get_expr(pol.polwithcheck, pol.polrelid)) AS expression
+    FROM pg_catalog.pg_policy pol
+    JOIN pg_catalog.pg_class c ON c.oid = pol.polrelid
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1
+      AND lower(concat_ws(' ', pg_get_expr(pol.polqual, pol.polrelid), pg_get_expr(pol.polwithcheck, pol.polrelid)))
+        ~ '(?<!select )(auth\\.(uid|jwt|role|email)\\(\\)|current_setting\\()'
+    ORDER BY c.relname, pol.polname;
+  `,
+  map: (row, schema) => {
+    const calls = [...new Set(row.expression.toLowerCase().match(/(?<!select )(auth\.(uid|jwt|role|email)\(\)|current_setting\()/g))]
+      .map(call => call.endsWith('(') ? `${call})` : call);
+    return {
+      object: row.table_name,
+      kind: 'table',
+      message: `Policy "${row.policy_name}" on "${schema}.${row.table_name}" calls ${calls.join(', ')} for every row; wrap ${calls.length > 1 ? 'them' : 'it'} in (select ...) to call ${calls.length > 1 ? 'them' : 'it'} once`,
+    };
+  },
+};
+
+// 0006 multiple_permissive_policies. Every permissive policy for a role and
+// command is evaluated for every row, so they are better combined into one.
+const multiplePermissivePolicies:Rule<{ table_name:string, role:string, command:string, policies:string[] }> = {
+  id: 'multiple-permissive-policies',
+  severity: 'warning',
+  query: `
+    SELECT c.relname AS table_name, r.role, cmd.command, array_agg(pol.polname ORDER BY pol.polname) AS policies
+    FROM pg_catalog.pg_policy pol
+    JOIN pg_catalog.pg_class c ON c.oid = pol.polrelid
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    CROSS JOIN LATERAL unnest(CASE pol.polcmd
+      WHEN 'r' THEN ARRAY['SELECT'] WHEN 'a' THEN ARRAY['INSERT'] WHEN 'w' THEN ARRAY['UPDATE'] WHEN 'd' THEN ARRAY['DELETE']
+      ELSE ARRAY['SELECT', 'INSERT', 'UPDATE', 'DELETE']
+    END) AS cmd(command)
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN p = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(p) END AS role
+      FROM unnest(pol.polroles) AS p
+    ) AS r
+    WHERE n.nspname = $1
+      AND pol.polpermissive
+    GROUP BY c.relname, r.role, cmd.command
+    HAVING count(*) > 1
+    ORDER BY c.relname, r.role, cmd.command;
+  `,
+  map: (row, schema) => ({
+    object: row.table_name,
+    kind: 'table',
+    grantee: row.role,
+    privilege: row.command,
+    message: `Table "${schema}.${row.table_name}" has ${row.policies.length} permissive ${row.command} policies for "${row.role}" (${row.policies.join(', ')}); combine them into one`,
+  }),
+};
+
+export const supabaseLinterRules:Rule[] = [
+  unindexedForeignKey,
+  authUsersExposed,
+  authRlsInitplan,
+  multiplePermissivePolicies,
+];
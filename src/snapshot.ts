@@ -0,0 +1,261 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import type { Client } from 'pg';
+import type { Finding, ObjectKind } from './findings.js';
+import { objectTypes, policyCommands } from './privileges.js';
+
+export interface SnapshotPolicy {
+  name:string;
+  command:string;
+  permissive:boolean;
+  roles:string[];
+  using:string | null;
+  check:string | null;
+}
+
+// One object and who can do what with it. Grants are keyed by grantee and leave
+// out the owner, who holds every privilege anyway. Routine names include their
+// argument types, and column names are prefixed with their table.
+export interface SnapshotObject {
+  schema:string;
+  name:string;
+  kind:ObjectKind;
+  owner:string;
+  grants:Record<string, string[]>;
+  rls?:{ enabled:boolean, forced:boolean };
+  policies?:SnapshotPolicy[];
+  securityDefiner?:boolean;
+  securityInvoker?:boolean;
+}
+
+export interface SecuritySnapshot {
+  schemas:string[];
+  objects:SnapshotObject[];
+}
+
+export const snapshotFile = 'supabase/security-snapshot.json';
+
+// Objects that belong to extensions are left out, like in checkObjectOwnership.
+const objectsQuery = `
+  WITH objects AS (
+    SELECT n.nspname AS schema, n.nspname AS name, 'schema' AS type, n.nspowner AS owner,
+      coalesce(n.nspacl, acldefault('n', n.nspowner)) AS acl,
+      NULL::bool AS rls, NULL::bool AS forced, NULL::bool AS definer, NULL::bool AS invoker
+    FROM pg_catalog.pg_namespace n
+    WHERE n.nspname = ANY($1)
+    UNION ALL
+    SELECT n.nspname, c.relname, 'class:' || c.relkind, c.relowner,
+      coalesce(c.relacl, acldefault(CASE WHEN c.relkind = 'S' THEN 's' ELSE 'r' END, c.relowner)),
+      CASE WHEN c.relkind IN ('r', 'p') THEN c.relrowsecurity END,
+      CASE WHEN c.relkind IN ('r', 'p') THEN c.relforcerowsecurity END,
+      NULL,
+      CASE WHEN c.relkind = 'v' THEN coalesce((
+        SELECT lower(split_part(o, '=', 2)) IN ('true', 'on', '1', 'yes')
+        FROM unnest(c.reloptions) AS o WHERE lower(o) LIKE 'security_invoker=%'
+      ), false) END
+    FROM pg_catalog.pg_class c
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ANY($1)
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'S')
+      AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+    UNION ALL
+    SELECT n.nspname, p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')', 'proc:' || p.prokind, p.proowner,
+      coalesce(p.proacl, acldefault('f', p.proowner)),
+      NULL, NULL, p.prosecdef, NULL
+    FROM pg_catalog.pg_proc p
+    JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = ANY($1)
+      AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+    UNION ALL
+    SELECT n.nspname, t.typname, 'type:' || t.typtype, t.typowner,
+      coalesce(t.typacl, acldefault('T', t.typowner)),
+      NULL, NULL, NULL, NULL
+    FROM pg_catalog.pg_type t
+    JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+    WHERE n.nspname = ANY($1)
+      AND t.typtype IN ('c', 'd', 'e', 'r')
+      AND (t.typrelid = 0 OR (SELECT c.relkind FROM pg_catalog.pg_class c WHERE c.oid = t.typrelid) = 'c')
+      AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e')
+    UNION ALL
+    -- Only columns with explicit grants; the rest follow their table
+    SELECT n.nspname, c.relname || '.' || a.attname, 'column', c.relowner, a.attacl, NULL, NULL, NULL, NULL
+    FROM pg_catalog.pg_attribute a
+    JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+    JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ANY($1)
+      AND a.attnum > 0 AND NOT a.attisdropped AND a.attacl IS NOT NULL
+  )
+  SELECT
+    o.schema, o.name, o.type, pg_get_userbyid(o.owner) AS owner, o.rls, o.forced, o.definer, o.invoker,
+    (
+      SELECT coalesce(json_agg(json_build_array(
+        CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(acl.grantee) END,
+        acl.privilege_type || CASE WHEN acl.is_grantable THEN ' WITH GRANT OPTION' ELSE '' END
+      )), '[]')
+      FROM aclexplode(o.acl) AS acl
+      WHERE acl.grantee <> o.owner
+    ) AS grants
+  FROM objects o;
+`;
+
+const policiesQuery = `
+  SELECT
+    n.nspname AS schema,
+    c.relname AS table_name,
+    pol.polname AS name,
+    pol.polcmd AS command,
+    pol.polpermissive AS permissive,
+    ARRAY(
+      SELECT CASE WHEN r = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(r) END
+      FROM unnest(pol.polroles) AS r
+    ) AS roles,
+    pg_get_expr(pol.polqual, pol.polrelid) AS using_expr,
+    pg_get_expr(pol.polwithcheck, pol.polrelid) AS check_expr
+  FROM pg_catalog.pg_policy pol
+  JOIN pg_catalog.pg_class c ON c.oid = pol.polrelid
+  JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1);
+`;
+
+const compare = (a:string, b:string) => a < b ? -1 : a > b ? 1 : 0;
+
+// Reads the access matrix of the schemas. Everything is sorted, so that the same
+// database always gives the same snapshot.
+export async function takeSnapshot(client:Client, schemas:string[]):Promise<SecuritySnapshot> {
+  const res = await client.query(objectsQuery, [schemas]) as { rows: {
+    schema:string, name:string, type:string, owner:string, rls:boolean | null, forced:boolean | null, definer:boolean | null, invoker:boolean | null, grants:[string, string][],
+  }[] };
+  const policies = await client.query(policiesQuery, [schemas]) as { rows: {
+    schema:string, table_name:string, name:string, command:string, permissive:boolean, roles:string[], using_expr:string | null, check_expr:string | null,
+  }[] };
+
+  const objects = res.rows.map(row => {
+    const grants:Record<string, string[]> = {};
+    for (const [grantee, privilege] of row.grants) {
+      (grants[grantee] ??= []).push(privilege);
+    }
+    Object.values(grants).forEach(privileges => privileges.sort(compare));
+    const object:SnapshotObject = {
+      schema: row.schema,
+      name: row.name,
+      kind: row.type === 'schema' || row.type === 'column' ? row.type : objectTypes[row.type]!.kind,
+      owner: row.owner,
+      grants: Object.fromEntries(Object.entries(grants).sort(([a], [b]) => compare(a, b))),
+    };
+    if (row.rls !== null) {
+      object.rls = { enabled: row.rls, forced: row.forced ?? false };
+      object.policies = policies.rows
+        .filter(p => p.schema === row.schema && p.table_name === row.name)
+        .map(p => ({
+          name: p.name,
+          command: policyCommands[p.command] ?? p.command,
+          permissive: p.permissive,
+          roles: [...p.roles].sort(compare),
+          using: p.using_expr,
+          check: p.check_expr,
+        }))
+        .sort((a, b) => compare(a.name, b.name));
+    }
+    if (row.definer !== null) object.securityDefiner = row.definer;
+    if (row.invoker !== null) object.securityInvoker = row.invoker;
+    return object;
+  });
+  objects.sort((a, b) => compare(a.schema, b.schema) || compare(a.kind, b.kind) || compare(a.name, b.name));
+  return { schemas: [...schemas].sort(compare), objects };
+}
+
+export function formatSnapshot(snapshot:SecuritySnapshot) {
+  return JSON.stringify(snapshot, null, 2) + '\n';
+}
+
+export async function readSnapshot(path = snapshotFile):Promise<SecuritySnapshot> {
+  return JSON.parse(await readFile(path, 'utf8')) as SecuritySnapshot;
+}
+
+export async function writeSnapshot(snapshot:SecuritySnapshot, path = snapshotFile) {
+  await writeFile(path, formatSnapshot(snapshot));
+}
+
+// e.g. table "api.todos", or schema "api"
+function describeObject(object:SnapshotObject) {
+  return object.kind === 'schema' ? `schema "${object.name}"` : `${object.kind} "${object.schema}.${object.name}"`;
+}
+
+function label(object:SnapshotObject) {
+  const description = describeObject(object);
+  return description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+function describePolicy(policy:SnapshotPolicy) {
+  return `${policy.permissive ? 'permissive' : 'restrictive'} ${policy.command} to ${policy.roles.join(', ')} using ${policy.using ?? '(none)'} with check ${policy.check ?? '(none)'}`;
+}
+
+// Every difference between the committed snapshot and the database, as one
+// finding each. Accepting the changes means taking a new snapshot, so the
+// findings have no fix.
+export function diffSnapshots(expected:SecuritySnapshot, actual:SecuritySnapshot):Finding[] {
+  const key = (o:SnapshotObject) => JSON.stringify([o.schema, o.kind, o.name]);
+  const before = new Map(expected.objects.map(o => [key(o), o]));
+  const after = new Map(actual.objects.map(o => [key(o), o]));
+  const findings:Finding[] = [];
+  const drift = (object:SnapshotObject, message:string, extra:Partial<Finding> = {}) => findings.push({
+    rule: 'snapshot-drift',
+    severity: 'error',
+    schema: object.schema,
+    object: object.name,
+    kind: object.kind,
+    message,
+    ...extra,
+  });
+
+  for (const [k, old] of before) {
+    if (!after.has(k)) drift(old, `${label(old)} is in the snapshot but not in the database`);
+  }
+  for (const [k, object] of after) {
+    const old = before.get(k);
+    if (!old) {
+      drift(object, `${label(object)} is not in the snapshot`);
+      continue;
+    }
+    if (old.owner !== object.owner) {
+      drift(object, `${label(object)} is owned by "${object.owner}", the snapshot has "${old.owner}"`);
+    }
+    for (const grantee of new Set([...Object.keys(old.grants), ...Object.keys(object.grants)])) {
+      const was = old.grants[grantee] ?? [];
+      const is = object.grants[grantee] ?? [];
+      const added = is.filter(p => !was.includes(p));
+      const removed = was.filter(p => !is.includes(p));
+      if (added.length) {
+        drift(object, `${label(object)} grants ${added.join(', ')} to "${grantee}", which is not in the snapshot`, { grantee, privilege: added.join(', ') });
+      }
+      if (removed.length) {
+        drift(object, `${label(object)} no longer grants ${removed.join(', ')} to "${grantee}"`, { grantee, privilege: removed.join(', ') });
+      }
+    }
+    if (old.rls && object.rls) {
+      if (old.rls.enabled !== object.rls.enabled) {
+        drift(object, `${label(object)} has RLS ${object.rls.enabled ? 'enabled' : 'disabled'}, the snapshot has it ${old.rls.enabled ? 'enabled' : 'disabled'}`);
+      }
+      if (old.rls.forced !== object.rls.forced) {
+        drift(object, `${label(object)} ${object.rls.forced ? 'forces' : 'no longer forces'} RLS`);
+      }
+    }
+    const oldPolicies = new Map((old.policies ?? []).map(p => [p.name, p]));
+    const policies = new Map((object.policies ?? []).map(p => [p.name, p]));
+    for (const [name, policy] of oldPolicies) {
+      if (!policies.has(name)) drift(object, `Policy "${name}" on ${describeObject(object)} is in the snapshot but not in the database`);
+      else if (describePolicy(policies.get(name)!) !== describePolicy(policy)) {
+        drift(object, `Policy "${name}" on ${describeObject(object)} changed from "${describePolicy(policy)}" to "${describePolicy(policies.get(name)!)}"`);
+      }
+    }
+    for (const [name, policy] of policies) {
+      if (!oldPolicies.has(name)) drift(object, `Policy "${name}" on ${describeObject(object)} is not in the snapshot: ${describePolicy(policy)}`);
+    }
+    if (old.securityDefiner !== object.securityDefiner) {
+      drift(object, `${label(object)} is ${object.securityDefiner ? 'SECURITY DEFINER' : 'SECURITY INVOKER'}, the snapshot has it ${old.securityDefiner ? 'SECURITY DEFINER' : 'SECURITY INVOKER'}`);
+    }
+    if (old.securityInvoker !== object.securityInvoker) {
+      drift(object, `${label(object)} is ${object.securityInvoker ? '' : 'not '}security_invoker, the snapshot has it ${old.securityInvoker ? '' : 'not '}security_invoker`);
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,43 @@
+// Reserved key words (including those that can only be function or type names)
+// from the PostgreSQL documentation. They must be quoted when used as names.
+const reserved = new Set(`
+  all analyse analyze and any array as asc asymmetric authorization binary both case cast check collate
+  collation column concurrently constraint create cross current_catalog current_date current_role
+  current_schema current_time current_timestamp current_user default deferrable desc distinct do else
+  end except false fetch for foreign freeze from full grant group having ilike in initially inner
+  intersect into is isnull join lateral leading left like limit localtime localtimestamp natural not
+  notnull null offset on only or order outer overlaps placing primary references returning right
+  select session_user similar some symmetric system_user table tablesample then to trailing true
+  union unique user using variadic verbose when where window with
+`.trim().split(/\s+/));
+
+// Quotes an identifier only when PostgreSQL requires it, so that generated SQL
+// reads like hand-written SQL.
+export function quoteIdent(name:string) {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) && !reserved.has(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+// Like quoteIdent, but PUBLIC is the pseudo-role for all roles, not a name.
+export function quoteRole(name:string) {
+  return name === 'PUBLIC' ? name : quoteIdent(name);
+}
+
+export function quoteLiteral(value:string) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// A schema-qualified name, e.g. api.todos
+export function qualify(schema:string, name:string) {
+  return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+}
+
+// Splits a search_path setting as stored in the catalog, e.g. `"$user", public`
+// or `""` for an empty path, into schema names.
+export function parseSearchPath(value:string) {
+  const schemas:string[] = [];
+  for (const match of value.matchAll(/\s*(?:"((?:[^"]|"")*)"|([^,\s]+))\s*(?:,|$)/g)) {
+    const name = match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2]!.toLowerCase();
+    if (name) schemas.push(name);
+  }
+  return schemas;
+}
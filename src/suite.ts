@@ -0,0 +1,133 @@
+import type { Client } from 'pg';
+import type { Finding, ObjectKind } from './findings.js';
+import { objectTypes } from './privileges.js';
+import type { Rule } from './rules.js';
+import { zoneOwner, type ZoneConfig } from './zones.js';
+
+// A table, view or routine in a zone. Overloaded routines share one entry, like
+// their findings.
+export interface SuiteObject {
+  schema:string;
+  name:string;
+  kind:ObjectKind;
+  // e.g. "Materialized view"
+  label:string;
+}
+
+// What is found in the database before the tests are registered.
+export interface SuiteInventory {
+  objects:SuiteObject[];
+  // Every role of a zone or with a search path in the configuration, and every
+  // other role with USAGE on a zone except the owner and the platform roles
+  roles:string[];
+}
+
+// A test of a security suite: its describe blocks and title, and the findings
+// that make it fail.
+export interface SuiteTest {
+  path:string[];
+  findings:Finding[];
+}
+
+const objectsQuery = `
+  SELECT n.nspname AS schema, c.relname AS name, 'class:' || c.relkind AS type
+  FROM pg_catalog.pg_class c
+  JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1)
+    AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+    AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+  UNION
+  SELECT n.nspname, p.proname, 'proc:' || p.prokind
+  FROM pg_catalog.pg_proc p
+  JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+  WHERE n.nspname = ANY($1)
+    AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+  ORDER BY 1, 2, 3;
+`;
+
+const rolesQuery = `
+  SELECT DISTINCT pg_get_userbyid(acl.grantee) AS role
+  FROM pg_catalog.pg_namespace n
+  CROSS JOIN LATERAL aclexplode(n.nspacl) AS acl
+  WHERE n.nspname = ANY($1)
+    AND acl.grantee <> 0
+  ORDER BY 1;
+`;
+
+export async function takeInventory(client:Client, config:ZoneConfig):Promise<SuiteInventory> {
+  const schemas = config.schemas.map(zone => zone.schema);
+  const objects = await client.query(objectsQuery, [schemas]) as { rows: { schema:string, name:string, type:string }[] };
+  const granted = await client.query(rolesQuery, [schemas]) as { rows: { role:string }[] };
+  const ignored = new Set([zoneOwner(config), ...config.platformRoles ?? []]);
+  const roles = [
+    ...config.schemas.flatMap(zone => zone.roles),
+    ...Object.keys(config.searchPaths ?? {}),
+    ...granted.rows.map(row => row.role).filter(role => !ignored.has(role)),
+  ];
+  return {
+    objects: objects.rows.map(row => ({ schema: row.schema, name: row.name, kind: objectTypes[row.type]!.kind, label: objectTypes[row.type]!.label })),
+    roles: [...new Set(roles)].sort(),
+  };
+}
+
+const relations:ObjectKind[] = ['table', 'view', 'materialized view'];
+const routines:ObjectKind[] = ['function', 'procedure'];
+
+// The tests of every object, and the rules of the findings that fail them.
+// `exposed` tests only apply in exposed zones, where the checks run.
+const objectTests:{ title:string, kinds:ObjectKind[], rules:string[], exposed?:boolean }[] = [
+  { title: 'has RLS enabled', kinds: ['table'], rules: ['rls-disabled'], exposed: true },
+  { title: 'has RLS policies that restrict access', kinds: ['table'], rules: ['rls-not-forced', 'rls-no-policies', 'policy-always-true', 'policy-missing-with-check', 'policy-role-outside-zone'], exposed: true },
+  { title: 'does not bypass RLS', kinds: ['view', 'materialized view'], rules: ['view-security-definer', 'materialized-view-exposed'], exposed: true },
+  { title: 'is not SECURITY DEFINER', kinds: routines, rules: ['security-definer'], exposed: true },
+  { title: 'pins a safe search_path if SECURITY DEFINER', kinds: routines, rules: ['definer-search-path-not-set', 'definer-search-path-unsafe', 'definer-owner-privileged'] },
+  { title: 'grants nothing outside the zone', kinds: [...relations, ...routines], rules: ['table-extra-grant', 'column-extra-grant', 'routine-extra-grant', 'routine-public-execute'] },
+  { title: 'grants the zone privileges', kinds: [...relations, ...routines], rules: ['table-privilege-missing', 'routine-privilege-missing'] },
+  { title: 'is owned by the zone owner', kinds: [...relations, ...routines], rules: ['object-owner'] },
+  { title: 'is not published unsafely', kinds: ['table'], rules: ['publication-internal-table', 'publication-without-rls'] },
+];
+
+function isAbout(finding:Finding, object:SuiteObject) {
+  if (finding.schema !== object.schema) return false;
+  // Column grants belong to the test of their table or view
+  if (finding.kind === 'column') return finding.object?.startsWith(`${object.name}.`) ?? false;
+  return finding.object === object.name && finding.kind === object.kind;
+}
+
+// Assigns the findings of auditZones to one test per object and rule, so that a
+// report lists every object that was checked. Custom rules get one test per
+// zone. Findings about anything else, such as sequences or types, fail a last
+// catch-all test.
+export function planSecuritySuite(config:ZoneConfig, inventory:SuiteInventory, findings:Finding[], rules:Rule[] = []):SuiteTest[] {
+  const claimed = new Set<Finding>();
+  const claim = (path:string[], matches:(finding:Finding) => boolean):SuiteTest => {
+    const matching = findings.filter(matches);
+    matching.forEach(f => claimed.add(f));
+    return { path, findings: matching };
+  };
+  const tests:SuiteTest[] = [];
+
+  for (const zone of config.schemas) {
+    const group = `zone "${zone.schema}"`;
+    tests.push(claim([group, 'has the default privileges of the zone'], f => f.schema === zone.schema && f.rule.startsWith('default-privilege-')));
+    for (const object of inventory.objects.filter(o => o.schema === zone.schema)) {
+      const name = `${object.label.toLowerCase()} "${object.schema}.${object.name}"`;
+      for (const check of objectTests.filter(t => t.kinds.includes(object.kind) && (zone.exposed || !t.exposed))) {
+        tests.push(claim([group, name, check.title], f => check.rules.includes(f.rule) && isAbout(f, object)));
+      }
+    }
+    for (const rule of rules.filter(r => zone.exposed || !r.exposed)) {
+      tests.push(claim([group, `follows the rule "${rule.id}"`], f => f.schema === zone.schema && f.rule === rule.id));
+    }
+  }
+  for (const role of inventory.roles) {
+    const group = `role "${role}"`;
+    tests.push(claim([group, 'has USAGE on exactly the zones it belongs to'], f => f.rule.startsWith('schema-usage-') && f.grantee === role));
+    tests.push(claim([group, 'cannot create objects in the zones'], f => f.rule === 'schema-create' && f.grantee === role));
+    if (config.searchPaths?.[role]) {
+      tests.push(claim([group, 'has a valid search_path'], f => f.rule.startsWith('search-path-') && f.kind === 'role' && f.object === role));
+    }
+  }
+  tests.push({ path: ['has no other findings'], findings: findings.filter(f => !claimed.has(f)) });
+  return tests;
+}
@@ -0,0 +1,86 @@
+// A zone is a schema plus the roles that are allowed to use it. Every role that
+// can use a zone gets the same privileges on everything inside it (see ADR-0002);
+// Row-Level Security is the only granular access control.
+
+export interface Zone {
+  // The schema that makes up the zone, e.g. "api" or "private".
+  schema:string;
+  // Roles granted usage of the schema and default privileges on its objects.
+  roles:string[];
+  // Whether the schema is exposed through the API (PostgREST). Exposed zones
+  // require RLS on every table and may not contain SECURITY DEFINER routines.
+  exposed?:boolean;
+  // Whether tables in an exposed zone must also FORCE ROW LEVEL SECURITY, so that
+  // the policies apply to the table owner as well.
+  forceRLS?:boolean;
+  // Views and materialized views in an exposed zone that are intentionally readable
+  // by every role of the zone without RLS.
+  publicRelations?:string[];
+  // Documentation for the schema, used in the generated setup SQL.
+  comment?:string;
+}
+
+export interface ZoneConfig {
+  schemas:Zone[];
+  // The role that owns the schemas and creates objects in them. Default: postgres
+  owner?:string;
+  // Platform roles that may have usage of every schema, e.g. Supabase's internal
+  // roles. They are accepted, but not required, by the schema usage check and
+  // otherwise ignored.
+  platformRoles?:string[];
+  // The expected search_path for each role, in order.
+  searchPaths?:Record<string, string[]>;
+  // Objects that may stay in the public schema, e.g. ones an extension creates
+  // without making them members of the extension. Members are always allowed.
+  publicObjects?:string[];
+}
+
+// The privileges every role of a zone has on each kind of object in it (ADR-0002).
+export const zonePrivileges = {
+  table: ['SELECT', 'INSERT', 'UPDATE', 'DELETE'],
+  sequence: ['USAGE', 'SELECT'],
+  routine: ['EXECUTE'],
+  type: ['USAGE'],
+};
+
+export const supabasePlatformRoles = [
+  'pg_read_all_data',
+  'pg_write_all_data',
+  'supabase_etl_admin',
+  'supabase_admin',
+  'supabase_read_only_user',
+];
+
+// The zone layout from ADR-0002 and the schema setup SQL.
+export const defaultZoneConfig:ZoneConfig = {
+  owner: 'postgres',
+  platformRoles: supabasePlatformRoles,
+  schemas: [
+    {
+      schema: 'api',
+      roles: ['anon', 'authenticated', 'service_role'],
+      exposed: true,
+      comment: 'Application schema for tables, views and routines exposed via PostgREST (publicly readable via RLS).',
+    },
+    {
+      schema: 'private',
+      roles: ['service_role'],
+      comment: 'Internal ROUTINES schema (NOT exposed via PostgREST). Only service_role can execute. Used for triggers, cron jobs, and admin operations.',
+    },
+  ],
+  searchPaths: {
+    anon: ['api'],
+    authenticated: ['api'],
+    service_role: ['api', 'private'],
+    postgres: ['api', 'private'],
+  },
+};
+
+export function zoneOwner(config:ZoneConfig) {
+  return config.owner ?? 'postgres';
+}
+
+// Every role that uses one of the zones.
+export function zoneRoles(config:ZoneConfig) {
+  return [...new Set(config.schemas.flatMap(zone => zone.roles))];
+}
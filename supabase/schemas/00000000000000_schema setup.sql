@@ -6,14 +6,17 @@
 -- accordance with the associated ADR. It is idempotent (can be rerun safely).
 -- The most recent version of this migration should always be the same as the
 -- schema setup sql file in the supabase/schemas directory.
+--
+-- It is generated from the zone configuration by generateSchemaSetupSql();
+-- change the configuration and regenerate it rather than editing it by hand.
 
 -- =============================================================================
 -- DEFAULT EXECUTE PRIVILEGE
 -- Remove default privileges for ROUTINES created by postgres user
--- This seems to be necessary if default privileges in schemas are additive; 
+-- This seems to be necessary if default privileges in schemas are additive;
 -- you can't revoke a default privilege that is granted at a higher level.
 -- =============================================================================
-ALTER DEFAULT PRIVILEGES FOR ROLE postgres 
+ALTER DEFAULT PRIVILEGES FOR ROLE postgres
 REVOKE EXECUTE ON ROUTINES FROM public;
 
 -- =============================================================================
@@ -24,6 +27,12 @@ ALTER ROLE authenticated SET search_path = api;
 ALTER ROLE service_role SET search_path = api, private;
 ALTER ROLE postgres SET search_path = api, private;
 
+-- =============================================================================
+-- PUBLIC SCHEMA
+-- Application objects belong in a zone, so only the owner creates objects here.
+-- =============================================================================
+REVOKE CREATE ON SCHEMA public FROM PUBLIC, anon, authenticated, service_role;
+
 -- =============================================================================
 -- API SCHEMA
 -- =============================================================================
@@ -62,7 +71,7 @@ GRANT USAGE ON TYPES TO anon, authenticated, service_role;
 -- Documentation
 
 COMMENT ON SCHEMA api IS
-  'Application schema for Ocean/WholeReader tables and views (publicly readable via RLS). ROUTINES are in private schema.';
+  'Application schema for tables, views and routines exposed via PostgREST (publicly readable via RLS).';
 
 -- =============================================================================
 -- PRIVATE SCHEMA
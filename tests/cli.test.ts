@@ -0,0 +1,28 @@
+// =============================================================================
+// CLI TESTS
+// =============================================================================
+//
+// This file contains the tests for the command line interface that run without
+// a database. Importing the module must not start the CLI.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { connectionFromEnv, run } from '../src/cli.js';
+
+describe('run', () => {
+  test('unknown commands exit with 2', async () => {
+    expect(await run(['unknown'])).toBe(2);
+  })
+  test('unknown formats exit with 2', async () => {
+    expect(await run(['audit', '--format', 'pdf'])).toBe(2);
+  })
+})
+
+describe('connectionFromEnv', () => {
+  test('defaults to the local Supabase database', () => {
+    expect(connectionFromEnv({})).toEqual({ user: 'postgres', host: 'localhost', database: 'postgres', password: 'postgres', port: 54322 });
+  })
+  test('reads the DB_* variables', () => {
+    expect(connectionFromEnv({ DB_HOST: 'db', DB_PORT: '5432' })).toMatchObject({ host: 'db', port: 5432 });
+  })
+})
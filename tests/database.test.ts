@@ -6,8 +6,8 @@
 // You should be able to copy this file to a new repository and it should work.
 // =============================================================================
 
-import { test, beforeAll, afterAll } from 'vitest';
-import { SupabaseTests } from '../src/index.js';
+import { test, describe, beforeAll, afterAll } from 'vitest';
+import { SupabaseTests, defaultZoneConfig, defineSecuritySuite, loadExceptions, supabaseLinterRules, type ZoneConfig } from '../src/index.js';
 import { Client } from 'pg';
 
 const dbConfig = {
@@ -18,13 +18,15 @@ const dbConfig = {
   port: parseInt(process.env.DB_PORT || '54322', 10),
 };
 
-const defaultRoles = [
-  'pg_read_all_data',
-  'pg_write_all_data',
-  'supabase_etl_admin',
-  'supabase_admin',
-  'supabase_read_only_user',
-]
+// Describe the zones once; every check below is driven by this configuration.
+// It starts from the default zones, api and private. To add a zone, add it to
+// `schemas` and regenerate the schema setup SQL with `supabase-security generate`.
+const zoneConfig:ZoneConfig = {
+  ...defaultZoneConfig,
+  schemas: [
+    ...defaultZoneConfig.schemas,
+  ],
+};
 
 let client:Client;
 let supabaseTests: SupabaseTests;
@@ -32,56 +34,63 @@ let supabaseTests: SupabaseTests;
 beforeAll(async () => {
   client = new Client(dbConfig);
   await client.connect();
-  supabaseTests = new SupabaseTests(client);
+  // Findings that are accepted on purpose, each with a reason and an optional expiry,
+  // and custom rules to run in every zone
+  supabaseTests = new SupabaseTests(client, { exceptions: await loadExceptions(), rules: supabaseLinterRules });
 });
 
 afterAll(async () => {
   await client.end();
 });
 
-test('all tables and materialized views in the API schema should have RLS enabled', async () => {
-  await supabaseTests.assertRLSEnabledForTablesAndMaterializedViews('api');
+test('the database should conform to the zone configuration', async () => {
+  await supabaseTests.verifyZones(zoneConfig);
 });
 
-test('no functions in the api schema should be "security definer"', async () => {
-  await supabaseTests.assertNoSecurityDefinersRoutines('api');
+test('the schema setup SQL should be generated from the zone configuration', async () => {
+  await supabaseTests.assertSchemaSetupFiles(zoneConfig);
 });
 
-test('the users for the api schema should be anon, authenticated, service_role, postgres', async () => {
-  await supabaseTests.assertAccessToSchema('api', ['anon', 'authenticated', 'service_role', 'postgres', ...defaultRoles]);
+test('access to the zones should match the committed security snapshot', async () => {
+  await supabaseTests.assertSnapshot();
 });
-test('the users for the private schema should be service_role, postgres', async () => {
-  await supabaseTests.assertAccessToSchema('private', ['service_role', 'postgres', ...defaultRoles]);
-})
 
+test('supabase/config.toml should only expose the exposed zones', async () => {
+  await supabaseTests.assertApiSettings(zoneConfig);
+});
 
-// TABLES
-test('no tables in the api schema should have users outside of the listed ones', async () => {
-  await supabaseTests.assertNoTablesWithExtraRoles('api', ['anon', 'authenticated', 'service_role', 'postgres']);
-})
-test('default privileges in the api schema should be set', async () => {
-  await supabaseTests.assertDefaultPrivilegesForTables('api', ['anon', 'authenticated', 'service_role']);
+test('storage should be protected by RLS', async () => {
+  await supabaseTests.assertStorage();
 });
-test('no tables in the private schema should have users outside of the lised ones', async () => {
-  await supabaseTests.assertNoTablesWithExtraRoles('private', ['service_role']);
-})
-test('default privileges in the private schema should be set', async () => {
-  await supabaseTests.assertDefaultPrivilegesForTables('private', ['service_role']);
+
+// The same checks as verifyZones, with one test per object and rule, so the report
+// lists every object that was checked.
+describe('every object in the zones', async () => {
+  const suiteClient = new Client(dbConfig);
+  try {
+    await suiteClient.connect();
+  } catch (error) {
+    // Without a database there are no objects to list, so fail one test instead
+    // of the whole file
+    test('the database should be reachable', () => { throw error; });
+    return;
+  }
+  try {
+    await defineSecuritySuite(suiteClient, zoneConfig, { exceptions: await loadExceptions(), rules: supabaseLinterRules });
+  } finally {
+    await suiteClient.end();
+  }
+});
+
+test('application objects should stay out of the public schema', async () => {
+  await supabaseTests.assertPublicSchema(zoneConfig);
 });
 
-test('no routines in the api schema should have users outside of the listed ones', async () => {
-  await supabaseTests.assertNoRoutinesWithExtraRoles('api', ['anon', 'authenticated', 'service_role', 'postgres']);
-})
-test('default privileges should be set correctly for routines in the api schema', async () => {
-  await supabaseTests.assertDefaultPrivilegesForRoutines('api', ['anon', 'authenticated', 'service_role']);
+test('the exposed zone should pass the Supabase linter rules', async () => {
+  await supabaseTests.assertRules('api', { exposed: true });
 });
-test('no routines in the private schema should have users outside of the listed ones', async () => {
-  await supabaseTests.assertNoRoutinesWithExtraRoles('private', ['service_role']);
-})
-test('default privileges should be set correctly for routines in the private schema', async () => {
-  await supabaseTests.assertDefaultPrivilegesForRoutines('private', ['service_role']);
-}); 
 
-test.for(['anon','authenticated','service_role'])('search_path should not include public', async (role) => {
-  await supabaseTests.assertValidSearchPath(role);
+// Runs last: an exception is stale if none of the tests above needed it.
+test('every exception should still be needed', () => {
+  supabaseTests.assertExceptionsUsed();
 });
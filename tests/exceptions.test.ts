@@ -0,0 +1,99 @@
+// =============================================================================
+// EXCEPTIONS TESTS
+// =============================================================================
+//
+// This file contains the tests for accepting findings through an exceptions
+// file. They do not need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { applyExceptions, exceptionFindings, loadExceptions, type Finding, type FindingException } from '../src/index.js';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const findings:Finding[] = [
+  {
+    rule: 'table-extra-grant',
+    severity: 'error',
+    schema: 'api',
+    object: 'sales',
+    grantee: 'reporting',
+    privilege: 'SELECT',
+    message: 'Table "api.sales" has "SELECT" granted to "reporting"',
+  },
+  {
+    rule: 'table-extra-grant',
+    severity: 'error',
+    schema: 'api',
+    object: 'customers',
+    grantee: 'reporting',
+    privilege: 'SELECT',
+    message: 'Table "api.customers" has "SELECT" granted to "reporting"',
+  },
+];
+
+const today = new Date('2025-06-15T12:00:00Z');
+
+async function writeExceptions(content:string) {
+  const path = join(await mkdtemp(join(tmpdir(), 'exceptions-')), 'security-exceptions.json');
+  await writeFile(path, content);
+  return path;
+}
+
+describe('applyExceptions', () => {
+  test('an exception only covers the findings it matches', () => {
+    const exception:FindingException = { rule: 'table-extra-grant', schema: 'api', object: 'sales', grantee: 'reporting', reason: 'Monthly sales report' };
+    const used = new Set<FindingException>();
+    expect(applyExceptions(findings, [exception], used, today)).toEqual([findings[1]]);
+    expect(used.has(exception)).toBe(true);
+  })
+  test('fields that are left out match anything', () => {
+    const exception:FindingException = { rule: 'table-extra-grant', grantee: 'reporting', reason: 'Reporting reads every table' };
+    expect(applyExceptions(findings, [exception], new Set(), today)).toEqual([]);
+  })
+  test('an exception no longer applies after it expires', () => {
+    const exception:FindingException = { rule: 'table-extra-grant', grantee: 'reporting', reason: 'Until the warehouse is ready', expires: '2025-06-14' };
+    expect(applyExceptions(findings, [exception], new Set(), today)).toEqual(findings);
+    expect(applyExceptions(findings, [{ ...exception, expires: '2025-06-15' }], new Set(), today)).toEqual([]);
+  })
+})
+
+describe('exceptionFindings', () => {
+  test('expired and unused exceptions are reported', () => {
+    const expired:FindingException = { rule: 'table-extra-grant', grantee: 'reporting', reason: 'Until the warehouse is ready', expires: '2025-06-14' };
+    const unused:FindingException = { rule: 'rls-disabled', schema: 'api', object: 'countries', reason: 'Reference data' };
+    const used:FindingException = { rule: 'table-extra-grant', object: 'sales', reason: 'Monthly sales report' };
+    expect(exceptionFindings([expired, unused, used], new Set([used]), today)).toEqual([
+      {
+        rule: 'exception-expired',
+        severity: 'error',
+        message: 'Exception for "table-extra-grant" for "reporting" expired on 2025-06-14: Until the warehouse is ready',
+      },
+      {
+        rule: 'exception-unused',
+        severity: 'error',
+        message: 'Exception for "rls-disabled" on "api.countries" does not match any finding: Reference data',
+      },
+    ]);
+  })
+})
+
+describe('loadExceptions', () => {
+  test('reads the exceptions from a JSON file', async () => {
+    const exceptions = [{ rule: 'table-extra-grant', object: 'sales', reason: 'Monthly sales report', expires: '2025-12-31' }];
+    expect(await loadExceptions(await writeExceptions(JSON.stringify(exceptions)))).toEqual(exceptions);
+  })
+  test('an exception without a reason is rejected', async () => {
+    const path = await writeExceptions(JSON.stringify([{ rule: 'table-extra-grant' }]));
+    await expect(loadExceptions(path)).rejects.toThrow(`${path}[0]: "reason" is required`);
+  })
+  test('a misspelled field is rejected instead of ignored', async () => {
+    const path = await writeExceptions(JSON.stringify([{ rule: 'table-extra-grant', objects: 'sales', reason: 'Monthly sales report' }]));
+    await expect(loadExceptions(path)).rejects.toThrow('unknown field "objects"');
+  })
+  test('an invalid expiry date is rejected', async () => {
+    const path = await writeExceptions(JSON.stringify([{ rule: 'table-extra-grant', reason: 'Monthly sales report', expires: '31/12/2025' }]));
+    await expect(loadExceptions(path)).rejects.toThrow('"expires" must be a date');
+  })
+})
@@ -0,0 +1,96 @@
+// =============================================================================
+// EXPOSURE TESTS
+// =============================================================================
+//
+// This file contains the tests for checking the schemas that supabase/config.toml
+// exposes through PostgREST. They do not need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { checkApiSettings, defaultZoneConfig, parseToml, readApiSettings, type ApiSettings } from '../src/index.js';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+async function writeConfig(content:string) {
+  const path = join(await mkdtemp(join(tmpdir(), 'config-')), 'config.toml');
+  await writeFile(path, content);
+  return path;
+}
+
+const settings = (schemas:string[], extraSearchPath = ['api', 'extensions']):ApiSettings => ({
+  file: 'supabase/config.toml',
+  schemas,
+  extraSearchPath,
+  lines: { schemas: 13, extraSearchPath: 15 },
+});
+
+describe('parseToml', () => {
+  test('reads tables, keys and values with their line', () => {
+    const toml = parseToml([
+      'project_id = "demo" # a comment',
+      '',
+      '[api]',
+      'enabled = true',
+      'port = 54_321',
+      'schemas = [',
+      '  "api", # the application zone',
+      '  \'graphql_public\',',
+      ']',
+      '[auth.sms]',
+      'template = "Your code is {{ .Code }}\\n"',
+    ].join('\n'));
+    expect(toml).toEqual({
+      project_id: { value: 'demo', line: 1 },
+      'api.enabled': { value: true, line: 4 },
+      'api.port': { value: 54321, line: 5 },
+      'api.schemas': { value: ['api', 'graphql_public'], line: 6 },
+      'auth.sms.template': { value: 'Your code is {{ .Code }}\n', line: 11 },
+    });
+  })
+  test('unsupported syntax is rejected', () => {
+    expect(() => parseToml('[api]\nheaders = { a = 1 }')).toThrow('supabase/config.toml:2: inline tables are not supported');
+    expect(() => parseToml('a = \'\'\'', 'other/config.toml')).toThrow(/^other\/config\.toml:1: /);
+  })
+})
+
+describe('readApiSettings', () => {
+  test('the committed config.toml exposes only the api zone', async () => {
+    const committed = await readApiSettings();
+    expect(committed.schemas).toEqual(['api']);
+    expect(checkApiSettings(committed, defaultZoneConfig)).toEqual([]);
+  })
+  test('the Supabase CLI defaults apply when the settings are left out', async () => {
+    const path = await writeConfig('[api]\nenabled = true\n');
+    expect(await readApiSettings(path)).toEqual({
+      file: path,
+      schemas: ['public', 'graphql_public'],
+      extraSearchPath: ['public', 'extensions'],
+      lines: {},
+    });
+  })
+})
+
+describe('checkApiSettings', () => {
+  test('an exposed internal zone is an error', () => {
+    expect(checkApiSettings(settings(['api', 'private']), defaultZoneConfig)).toEqual([{
+      rule: 'api-exposes-internal-zone',
+      severity: 'error',
+      schema: 'private',
+      kind: 'schema',
+      message: '[api] schemas exposes "private", which is an internal zone',
+      file: 'supabase/config.toml',
+      line: 13,
+    }]);
+  })
+  test('a missing exposed zone, public and other schemas are reported', () => {
+    const findings = checkApiSettings(settings(['public', 'graphql_public'], ['public', 'private']), defaultZoneConfig);
+    expect(findings.map(f => `${f.severity} ${f.rule} ${f.schema}`)).toEqual([
+      'error api-zone-not-exposed api',
+      'error api-exposes-unzoned-schema public',
+      'warning api-exposes-unzoned-schema graphql_public',
+      'error api-search-path-unsafe public',
+      'error api-search-path-unsafe private',
+    ]);
+  })
+})
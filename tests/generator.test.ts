@@ -0,0 +1,106 @@
+// =============================================================================
+// GENERATOR TESTS
+// =============================================================================
+//
+// This file contains the tests for the schema setup SQL generator. They do not
+// need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { checkSchemaSetupFiles, defaultZoneConfig, generateEventTriggerSql, generateSchemaSetupSql, schemaSetupFile, schemaSetupFiles, writeSchemaSetupFiles, type ZoneConfig } from '../src/index.js';
+import { mkdtemp, readdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('generateSchemaSetupSql', () => {
+  test('the committed schema setup files match the default zone configuration', async () => {
+    expect(await checkSchemaSetupFiles(defaultZoneConfig)).toEqual([]);
+  })
+  test('each zone gets usage and default privileges for its roles', () => {
+    const sql = generateSchemaSetupSql({
+      owner: 'postgres',
+      schemas: [{ schema: 'reporting', roles: ['analyst'] }],
+    });
+    expect(sql).toContain('CREATE SCHEMA IF NOT EXISTS reporting;');
+    expect(sql).toContain('GRANT USAGE ON SCHEMA reporting TO analyst;');
+    expect(sql).toContain('ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA reporting\nGRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO analyst;');
+    expect(sql).toContain('ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA reporting\nGRANT EXECUTE ON ROUTINES TO analyst;');
+  })
+  test('no zone role can create objects in the public schema', () => {
+    const sql = generateSchemaSetupSql({ owner: 'postgres', schemas: [{ schema: 'reporting', roles: ['analyst', 'postgres'] }] });
+    expect(sql).toContain('REVOKE CREATE ON SCHEMA public FROM PUBLIC, analyst;');
+  })
+  test('search paths are set for every configured role', () => {
+    const sql = generateSchemaSetupSql({ schemas: [], searchPaths: { analyst: ['reporting', 'api'] } });
+    expect(sql).toContain('ALTER ROLE analyst SET search_path = reporting, api;');
+  })
+  test('identifiers and comments are quoted when needed', () => {
+    const sql = generateSchemaSetupSql({ schemas: [{ schema: 'Reports', roles: ['user'], comment: "It's internal" }] });
+    expect(sql).toContain('GRANT USAGE ON SCHEMA "Reports" TO "user";');
+    expect(sql).toContain("COMMENT ON SCHEMA \"Reports\" IS\n  'It''s internal';");
+  })
+  test('quotes in schema and role names are escaped', () => {
+    const sql = generateSchemaSetupSql({ owner: 'the "owner"', schemas: [{ schema: 'my"schema', roles: [] }] });
+    expect(sql).toContain('ALTER SCHEMA "my""schema" OWNER TO "the ""owner""";');
+  })
+})
+
+describe('checkSchemaSetupFiles', () => {
+  test('reports the first line that differs', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'schema-setup-'));
+    const path = join(dir, 'setup.sql');
+    await writeFile(path, generateSchemaSetupSql(defaultZoneConfig).replace('TO anon, authenticated, service_role', 'TO anon'));
+    const findings = await checkSchemaSetupFiles(defaultZoneConfig, [path]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]!.rule).toBe('schema-setup-drift');
+    expect(findings[0]!.message).toContain('GRANT USAGE ON SCHEMA api TO anon, authenticated, service_role;');
+  })
+  test('reports missing files', async () => {
+    const findings = await checkSchemaSetupFiles(defaultZoneConfig, ['does-not-exist.sql']);
+    expect(findings[0]!.message).toBe('Schema setup file "does-not-exist.sql" is missing');
+  })
+  test('only the latest schema setup migration is compared', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+    await writeFile(join(dir, '00000000000000_schema setup.sql'), 'applied long ago');
+    await writeFile(join(dir, '20250101000000_schema setup.sql'), 'applied');
+    await writeFile(join(dir, '20250201000000_security_fixes.sql'), 'fixes');
+    expect(await schemaSetupFiles(dir)).toEqual([schemaSetupFile, join(dir, '20250101000000_schema setup.sql')]);
+  })
+})
+
+describe('writeSchemaSetupFiles', () => {
+  test('a change is written to a new migration', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+    await writeFile(join(dir, '00000000000000_schema setup.sql'), 'applied long ago');
+    const written = await writeSchemaSetupFiles(defaultZoneConfig, dir, new Date('2025-03-04T05:06:07Z'));
+    expect(written).toEqual([join(dir, '20250304050607_schema setup.sql')]);
+    expect(await writeSchemaSetupFiles(defaultZoneConfig, dir)).toEqual([]);
+    expect(await readdir(dir)).toEqual(['00000000000000_schema setup.sql', '20250304050607_schema setup.sql']);
+  })
+})
+
+describe('generateEventTriggerSql', () => {
+  const config:ZoneConfig = {
+    owner: 'postgres',
+    schemas: [
+      { schema: 'api', roles: ['anon'], exposed: true, forceRLS: true },
+      { schema: 'internal', roles: [] },
+    ],
+  };
+  test('the function is installed in the given schema', () => {
+    const sql = generateEventTriggerSql(config, 'internal');
+    expect(sql).toContain('CREATE OR REPLACE FUNCTION internal.enforce_zone_rules()\nRETURNS event_trigger');
+    expect(sql).toContain('CREATE EVENT TRIGGER enforce_zone_rules ON ddl_command_end\nEXECUTE FUNCTION internal.enforce_zone_rules();');
+  })
+  test('objects in every zone must be owned by the zone owner', () => {
+    const sql = generateEventTriggerSql(config);
+    expect(sql).toContain("WHERE schema_name = ANY (ARRAY['api', 'internal']::text[])");
+    expect(sql).toContain("IF owner <> 'postgres' THEN");
+  })
+  test('the RLS and SECURITY DEFINER rules only apply to exposed zones', () => {
+    const sql = generateEventTriggerSql(config);
+    expect(sql).toContain("CONTINUE WHEN command.schema_name <> ALL (ARRAY['api']::text[]);");
+    expect(sql).toContain("forced := forced OR command.schema_name <> ALL (ARRAY['api']::text[]);");
+    expect(generateEventTriggerSql({ schemas: [{ schema: 'internal', roles: [] }] })).not.toContain('SECURITY DEFINER');
+  })
+})
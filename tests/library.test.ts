@@ -8,7 +8,7 @@
 // =============================================================================
 
 import { test, beforeAll, afterAll, describe, expect } from 'vitest';
-import { SupabaseTests } from '../src/index.js';
+import { SupabaseTests, defaultZoneConfig, formatMatrixMarkdown, generateEventTriggerSql, supabaseLinterRules, takeInventory, takeSnapshot, type Rule, type SecuritySnapshot } from '../src/index.js';
 import { Client } from 'pg';
 
 const dbConfig = {
@@ -158,6 +158,57 @@ describe.sequential('assertNoSecurityDefinersRoutines', async () => {
   })
 })
 
+describe.sequential('assertSecurityDefinerSearchPath', async () => {
+  const searchPathFindings = async () => (await supabaseTests.checkSecurityDefinerSearchPath('private'))
+    .filter(f => f.rule !== 'definer-owner-privileged');
+  const createDefiner = async (searchPath:string) => {
+    await client.query(`
+      CREATE OR REPLACE FUNCTION private.test_definer()
+      RETURNS void
+      LANGUAGE sql
+      SECURITY DEFINER
+      ${searchPath}
+      AS $$ SELECT 1 $$;
+    `);
+  }
+  test('the test fails if a security definer function does not set search_path', async () => {
+    await createDefiner('');
+    expect(await searchPathFindings()).toEqual([expect.objectContaining({
+      rule: 'definer-search-path-not-set',
+      object: 'test_definer',
+      fix: `ALTER FUNCTION private.test_definer() SET search_path = '';`,
+    })]);
+  })
+  test('the test passes if a security definer function sets an empty search_path', async () => {
+    await createDefiner(`SET search_path = ''`);
+    expect(await searchPathFindings()).toEqual([]);
+  })
+  test('the test fails if the search_path includes public or $user', async () => {
+    await createDefiner(`SET search_path = "$user", public`);
+    expect(await searchPathFindings()).toEqual([expect.objectContaining({
+      rule: 'definer-search-path-unsafe',
+      message: expect.stringContaining('"public", "$user"'),
+    })]);
+  })
+  test('the test fails if the search_path includes a schema that other roles can write to', async () => {
+    await client.query(`
+      CREATE SCHEMA test_writable;
+      GRANT CREATE ON SCHEMA test_writable TO anon;
+    `);
+    await createDefiner(`SET search_path = private, test_writable`);
+    expect(await searchPathFindings()).toEqual([expect.objectContaining({
+      rule: 'definer-search-path-unsafe',
+      message: expect.stringContaining('"test_writable" (writable by "anon")'),
+    })]);
+  })
+  afterAll(async () => {
+    await client.query(`
+      DROP FUNCTION IF EXISTS private.test_definer;
+      DROP SCHEMA IF EXISTS test_writable;
+    `);
+  })
+})
+
 describe('assertAccessToSchema', async () => {
   test('all of the proper roles have access', async () => {
     await supabaseTests.assertAccessToSchema('api', ['anon', 'authenticated', 'service_role', 'postgres', ...defaultRoles]);
@@ -168,6 +219,9 @@ describe('assertAccessToSchema', async () => {
   test.fails('the test fails if a role that is NOT in the list has access', async () => {
     await supabaseTests.assertAccessToSchema('api', ['anon', 'authenticated', /** 'service_role', */ 'postgres', ...defaultRoles]);
   })
+  test('tolerated roles may have access but are not required to', async () => {
+    await supabaseTests.assertAccessToSchema('api', ['anon', 'authenticated', 'service_role', 'postgres'], [...defaultRoles, 'test_missing_platform_role']);
+  })
 })
 
 describe('assertDefaultPrivilegesForTables', async () => {
@@ -182,6 +236,122 @@ describe('assertDefaultPrivilegesForTables', async () => {
   })
 })
 
+describe('assertDefaultPrivilegesForSequences', async () => {
+  test('all of the proper roles have usage and select on new sequences', async () => {
+    await supabaseTests.assertDefaultPrivilegesForSequences('api', ['anon', 'authenticated', 'service_role']);
+    await supabaseTests.assertDefaultPrivilegesForSequences('private', ['service_role']);
+  })
+  test.fails('the test fails if a role that is NOT in the list has privileges on new sequences', async () => {
+    await supabaseTests.assertDefaultPrivilegesForSequences('api', ['anon', 'authenticated']);
+  })
+})
+
+describe('assertDefaultPrivilegesForTypes', async () => {
+  test('all of the proper roles have usage on new types', async () => {
+    await supabaseTests.assertDefaultPrivilegesForTypes('api', ['anon', 'authenticated', 'service_role']);
+    await supabaseTests.assertDefaultPrivilegesForTypes('private', ['service_role']);
+  })
+  test.fails('the test fails if one of the listed roles does NOT have usage on new types', async () => {
+    await supabaseTests.assertDefaultPrivilegesForTypes('private', ['anon', 'service_role']);
+  })
+})
+
+describe.sequential('default privileges for the full privilege set', async () => {
+  test('the test fails if a default table privilege other than SELECT is missing', async () => {
+    await client.query(`
+      ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA api REVOKE DELETE ON TABLES FROM anon;
+    `);
+    const findings = await supabaseTests.checkDefaultPrivilegesForTables('api', ['anon', 'authenticated', 'service_role']);
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'default-privilege-missing',
+      grantee: 'anon',
+      privilege: 'DELETE',
+      fix: 'ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA api\nGRANT DELETE ON TABLES TO anon;',
+    })]);
+    await client.query(`
+      ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA api GRANT DELETE ON TABLES TO anon;
+    `);
+  })
+  test('the test fails if a default privilege outside the zone set is granted', async () => {
+    await client.query(`
+      ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA api GRANT TRUNCATE ON TABLES TO anon;
+    `);
+    const findings = await supabaseTests.checkDefaultPrivilegesForTables('api', ['anon', 'authenticated', 'service_role']);
+    expect(findings).toEqual([expect.objectContaining({ rule: 'default-privilege-extra', grantee: 'anon', privilege: 'TRUNCATE' })]);
+    await client.query(`
+      ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA api REVOKE TRUNCATE ON TABLES FROM anon;
+    `);
+  })
+  test('default privileges of another role do not count for the owner', async () => {
+    await client.query(`
+      CREATE ROLE test_default_owner_role;
+      GRANT test_default_owner_role TO postgres;
+      ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA api REVOKE DELETE ON TABLES FROM anon;
+      ALTER DEFAULT PRIVILEGES FOR ROLE test_default_owner_role IN SCHEMA api GRANT DELETE ON TABLES TO anon;
+    `);
+    const findings = await supabaseTests.checkDefaultPrivilegesForTables('api', ['anon', 'authenticated', 'service_role']);
+    expect(findings).toEqual([expect.objectContaining({ rule: 'default-privilege-missing', grantee: 'anon', privilege: 'DELETE' })]);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA api GRANT DELETE ON TABLES TO anon;
+      DROP OWNED BY test_default_owner_role;
+      DROP ROLE IF EXISTS test_default_owner_role;
+    `);
+  })
+})
+
+describe.sequential('actual privileges for the full privilege set', async () => {
+  beforeAll(async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+      CREATE TYPE api.test_type AS ENUM ('a', 'b');
+      CREATE DOMAIN api.test_domain AS text;
+    `);
+  })
+  test('objects created with the default privileges pass', async () => {
+    const roles = ['anon', 'authenticated', 'service_role'];
+    await supabaseTests.assertTablePrivileges('api', roles);
+    await supabaseTests.assertSequencePrivileges('api', roles);
+    await supabaseTests.assertTypePrivileges('api', roles);
+    await supabaseTests.assertNoTypesWithExtraRoles('api', [...roles, 'postgres']);
+  })
+  test('the test fails if a zone role is missing a privilege', async () => {
+    await client.query(`
+      REVOKE UPDATE, DELETE ON api.test_table FROM authenticated;
+      REVOKE USAGE ON SEQUENCE api.test_table_id_seq FROM anon;
+    `);
+    expect(await supabaseTests.checkTablePrivileges('api', ['anon', 'authenticated', 'service_role'])).toEqual([expect.objectContaining({
+      rule: 'table-privilege-missing',
+      grantee: 'authenticated',
+      privilege: 'UPDATE, DELETE',
+      fix: 'GRANT UPDATE, DELETE ON TABLE api.test_table TO authenticated;',
+    })]);
+    expect(await supabaseTests.checkSequencePrivileges('api', ['anon', 'authenticated', 'service_role'])).toEqual([expect.objectContaining({
+      rule: 'sequence-privilege-missing',
+      grantee: 'anon',
+      fix: 'GRANT USAGE ON SEQUENCE api.test_table_id_seq TO anon;',
+    })]);
+  })
+  test('the test fails if a type or domain is granted to an extra role', async () => {
+    await client.query(`
+      GRANT USAGE ON DOMAIN api.test_domain TO supabase_read_only_user;
+    `);
+    expect(await supabaseTests.checkNoTypesWithExtraRoles('api', ['anon', 'authenticated', 'service_role', 'postgres'])).toEqual([expect.objectContaining({
+      rule: 'type-extra-grant',
+      object: 'test_domain',
+      fix: 'REVOKE USAGE ON DOMAIN api.test_domain FROM supabase_read_only_user;',
+    })]);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+      DROP TYPE IF EXISTS api.test_type;
+      DROP DOMAIN IF EXISTS api.test_domain;
+    `);
+  })
+})
+
 describe('assertDefaultPrivilegesForRoutines', async () => {
   test('all of the proper roles have execute permission', async () => {
     await supabaseTests.assertDefaultPrivilegesForRoutines('api', ['anon', 'authenticated', 'service_role']);
@@ -194,7 +364,7 @@ describe('assertDefaultPrivilegesForRoutines', async () => {
   })
 })
 
-describe('assertValidSearchPath', async () => {
+describe.sequential('assertValidSearchPath', async () => {
   test('the test fails if there is no explicit search path', async () => {
     await client.query(`
       DO $$
@@ -216,14 +386,14 @@ describe('assertValidSearchPath', async () => {
   })
   test('the test passes if the search path is set and does not include public', async() => {
     await client.query(`
-      ALTER ROLE test_search_path_role SET search_path = 'api,extensions';
+      ALTER ROLE test_search_path_role SET search_path = api, extensions;
     `);
     await supabaseTests.assertValidSearchPath('test_search_path_role');    
   })
   test('the test fails if the search path includes public', async () => {
     // create a role with a proper explicit search path
     await client.query(`
-      ALTER ROLE test_search_path_role SET search_path = 'public,extensions';
+      ALTER ROLE test_search_path_role SET search_path = public, extensions;
     `);
     let error:Error|undefined
     try {
@@ -234,6 +404,67 @@ describe('assertValidSearchPath', async () => {
     }
     expect(error).toBeDefined()    
   })
+  test('the test fails if the search path does not start with api', async () => {
+    await client.query(`
+      ALTER ROLE test_search_path_role SET search_path = extensions, api;
+    `);
+    expect(await supabaseTests.checkValidSearchPath('test_search_path_role')).toEqual([expect.objectContaining({
+      rule: 'search-path-api-not-first',
+      fix: 'ALTER ROLE test_search_path_role SET search_path = api, extensions;',
+    })]);
+  })
+  test('the test fails if a quoted list sets a single schema', async () => {
+    // 'api,extensions' is one schema named "api,extensions", not two schemas
+    await client.query(`
+      ALTER ROLE test_search_path_role SET search_path = 'api,extensions';
+    `);
+    expect(await supabaseTests.checkValidSearchPath('test_search_path_role')).toEqual([expect.objectContaining({
+      rule: 'search-path-missing-api',
+    })]);
+  })
+  test('a setting for the role in the database overrides the setting for the role', async () => {
+    await client.query(`
+      ALTER ROLE test_search_path_role SET search_path = api, extensions;
+      ALTER ROLE test_search_path_role IN DATABASE postgres SET search_path = "$user", public;
+    `);
+    const findings = await supabaseTests.checkValidSearchPath('test_search_path_role', ['api', 'extensions']);
+    expect(findings.map(f => f.rule)).toEqual(['search-path-includes-public', 'search-path-mismatch']);
+    expect(findings[0]?.message).toContain('set for the role in database "postgres"');
+    expect(findings[0]?.fix).toBe('ALTER ROLE test_search_path_role IN DATABASE postgres SET search_path = api, extensions;');
+    await client.query(`
+      ALTER ROLE test_search_path_role IN DATABASE postgres RESET search_path;
+    `);
+    await supabaseTests.assertValidSearchPath('test_search_path_role', ['api', 'extensions']);
+  })
+  test('$user resolves to the schema named after the role', async () => {
+    await client.query(`
+      CREATE SCHEMA test_search_path_role;
+      ALTER ROLE test_search_path_role SET search_path = api, "$user";
+    `);
+    await supabaseTests.assertValidSearchPath('test_search_path_role', ['api', 'test_search_path_role']);
+    await client.query(`
+      DROP SCHEMA test_search_path_role;
+    `);
+    await supabaseTests.assertValidSearchPath('test_search_path_role', ['api']);
+  })
+  test('the test fails if the expected path is not followed in order', async () => {
+    await client.query(`
+      ALTER ROLE test_search_path_role SET search_path = api, extensions;
+    `);
+    expect(await supabaseTests.checkValidSearchPath('test_search_path_role', ['api', 'private'])).toEqual([expect.objectContaining({
+      rule: 'search-path-mismatch',
+      message: 'search_path for role "test_search_path_role" (set for the role) resolves to "api, extensions", expected "api, private"',
+    })]);
+  })
+  test('an expected path without api passes if it matches', async () => {
+    await client.query(`
+      ALTER ROLE test_search_path_role SET search_path = reporting;
+    `);
+    await supabaseTests.assertValidSearchPath('test_search_path_role', ['reporting']);
+    expect(await supabaseTests.checkValidSearchPath('test_search_path_role', ['reporting', 'extensions'])).toEqual([expect.objectContaining({
+      rule: 'search-path-mismatch',
+    })]);
+  })
   afterAll(async()=>{
     await client.query(`
       DROP ROLE IF EXISTS test_search_path_role;
@@ -302,4 +533,867 @@ describe('assertNoRoutinesWithExtraRoles', async () => {
       DROP FUNCTION IF EXISTS api.test_function;
     `);
   })
-})
\ No newline at end of file
+})
+
+describe('verifyZones', async () => {
+  test('the default zone configuration passes', async () => {
+    await supabaseTests.verifyZones(defaultZoneConfig);
+  })
+  test.fails('the test fails if a zone lists a role that does NOT have access', async () => {
+    await supabaseTests.verifyZones({
+      ...defaultZoneConfig,
+      schemas: [{ schema: 'private', roles: ['anon', 'service_role'] }],
+    });
+  })
+  test.fails('the test fails if a search_path does not match the expected order', async () => {
+    await supabaseTests.verifyZones({
+      ...defaultZoneConfig,
+      searchPaths: { service_role: ['private', 'api'] },
+    });
+  })
+})
+
+describe('auditZones', async () => {
+  test('the default zone configuration has no findings', async () => {
+    expect(await supabaseTests.auditZones(defaultZoneConfig)).toEqual([]);
+  })
+  test('every failing check is reported as a finding', async () => {
+    const findings = await supabaseTests.auditZones({
+      schemas: [
+        { schema: 'api', roles: ['anon'] },
+        { schema: 'private', roles: ['anon'] },
+      ],
+    });
+    expect(findings).toContainEqual(expect.objectContaining({ rule: 'schema-usage-extra', schema: 'api', grantee: 'service_role' }));
+    expect(findings).toContainEqual(expect.objectContaining({ rule: 'schema-usage-missing', schema: 'private', grantee: 'anon' }));
+  })
+  test('findings describe the object, grantee and privilege', async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+      GRANT SELECT ON TABLE api.test_table TO supabase_read_only_user;
+    `);
+    const findings = await supabaseTests.checkNoTablesWithExtraRoles('api', ['anon', 'authenticated', 'service_role', 'postgres']);
+    expect(findings).toEqual([{
+      rule: 'table-extra-grant',
+      severity: 'error',
+      schema: 'api',
+      object: 'test_table',
+      kind: 'table',
+      grantee: 'supabase_read_only_user',
+      privilege: 'SELECT',
+      chain: ['supabase_read_only_user'],
+      message: 'Table "api.test_table" has "SELECT" granted to "supabase_read_only_user"',
+      fix: 'REVOKE SELECT ON TABLE api.test_table FROM supabase_read_only_user;',
+    }]);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+    `);
+  })
+})
+
+describe.sequential('fixes', async () => {
+  test('applying the fixes for a failed check makes it pass', async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+      GRANT SELECT ON TABLE api.test_table TO supabase_read_only_user;
+      CREATE FUNCTION api.test_function() RETURNS void LANGUAGE sql SECURITY DEFINER AS '';
+    `);
+    const findings = [
+      ...await supabaseTests.checkRLSEnabledForTablesAndMaterializedViews('api'),
+      ...await supabaseTests.checkNoTablesWithExtraRoles('api', ['anon', 'authenticated', 'service_role', 'postgres']),
+      ...await supabaseTests.checkNoSecurityDefinersRoutines('api'),
+    ];
+    expect(findings.map(f => f.fix)).toEqual([
+      'ALTER TABLE api.test_table ENABLE ROW LEVEL SECURITY;',
+      'REVOKE SELECT ON TABLE api.test_table FROM supabase_read_only_user;',
+      'ALTER FUNCTION api.test_function() SECURITY INVOKER;',
+    ]);
+    await client.query(findings.map(f => f.fix).join('\n'));
+    await supabaseTests.assertRLSEnabledForTablesAndMaterializedViews('api');
+    await supabaseTests.assertNoTablesWithExtraRoles('api', ['anon', 'authenticated', 'service_role', 'postgres']);
+    await supabaseTests.assertNoSecurityDefinersRoutines('api');
+  })
+  test('failed assertions include the suggested fix', async () => {
+    await client.query(`
+      ALTER TABLE api.test_table DISABLE ROW LEVEL SECURITY;
+    `);
+    await expect(supabaseTests.assertRLSEnabledForTablesAndMaterializedViews('api'))
+      .rejects.toThrow('Suggested fix:\n  ALTER TABLE api.test_table ENABLE ROW LEVEL SECURITY;');
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+      DROP FUNCTION IF EXISTS api.test_function;
+    `);
+  })
+})
+
+describe.sequential('assertObjectOwnership', async () => {
+  beforeAll(async () => {
+    await client.query(`
+      CREATE ROLE test_owner_role;
+      GRANT test_owner_role TO postgres;
+    `);
+  })
+  test('objects owned by postgres pass', async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+      CREATE FUNCTION api.test_function() RETURNS void LANGUAGE sql AS '';
+    `);
+    await supabaseTests.assertObjectOwnership('api');
+  })
+  test('the test fails if a table is owned by another role', async () => {
+    await client.query(`
+      ALTER TABLE api.test_table OWNER TO test_owner_role;
+    `);
+    const findings = await supabaseTests.checkObjectOwnership('api');
+    const table = findings.find(f => f.object === 'test_table');
+    expect(table).toMatchObject({ rule: 'object-owner', kind: 'table', grantee: 'test_owner_role' });
+    expect(table!.message).toContain('missed the default privileges DELETE, INSERT, SELECT, UPDATE to anon');
+    expect(table!.fix).toContain('ALTER TABLE api.test_table OWNER TO postgres;');
+    await expect(supabaseTests.assertObjectOwnership('api')).rejects.toThrow();
+  })
+  test('the test fails if a function is owned by another role', async () => {
+    await client.query(`
+      ALTER TABLE api.test_table OWNER TO postgres;
+      ALTER FUNCTION api.test_function() OWNER TO test_owner_role;
+    `);
+    const findings = await supabaseTests.checkObjectOwnership('api');
+    expect(findings.map(f => f.fix)).toEqual([
+      'ALTER FUNCTION api.test_function() OWNER TO postgres;\nGRANT EXECUTE ON FUNCTION api.test_function() TO anon, authenticated, service_role;',
+    ]);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+      DROP FUNCTION IF EXISTS api.test_function;
+      DROP ROLE IF EXISTS test_owner_role;
+    `);
+  })
+})
+
+describe.sequential('assertRLSPolicies', async () => {
+  const zoneRoles = ['anon', 'authenticated', 'service_role'];
+  test('the test fails if a table with RLS has no policies', async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY, owner_id uuid);
+      ALTER TABLE api.test_table ENABLE ROW LEVEL SECURITY;
+    `);
+    const findings = await supabaseTests.checkRLSPolicies('api', zoneRoles);
+    expect(findings).toEqual([expect.objectContaining({ rule: 'rls-no-policies', object: 'test_table' })]);
+  })
+  test('the test passes with a restrictive policy for a zone role', async () => {
+    await client.query(`
+      CREATE POLICY test_select ON api.test_table FOR SELECT TO authenticated USING (owner_id = auth.uid());
+    `);
+    await supabaseTests.assertRLSPolicies('api', zoneRoles);
+  })
+  test('the test fails if a permissive policy is always true', async () => {
+    await client.query(`
+      CREATE POLICY test_delete ON api.test_table FOR DELETE TO anon USING (true);
+    `);
+    const findings = await supabaseTests.checkRLSPolicies('api', zoneRoles);
+    expect(findings).toEqual([expect.objectContaining({ rule: 'policy-always-true', severity: 'error', grantee: 'anon', privilege: 'DELETE' })]);
+    await client.query(`DROP POLICY test_delete ON api.test_table;`);
+  })
+  test('the test fails if an update policy has no WITH CHECK', async () => {
+    await client.query(`
+      CREATE POLICY test_update ON api.test_table FOR UPDATE TO authenticated USING (owner_id = auth.uid());
+    `);
+    const findings = await supabaseTests.checkRLSPolicies('api', zoneRoles);
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'policy-missing-with-check',
+      fix: 'ALTER POLICY test_update ON api.test_table WITH CHECK ((owner_id = auth.uid()));',
+    })]);
+    await client.query(`DROP POLICY test_update ON api.test_table;`);
+  })
+  test('the test fails if a policy targets a role outside the zone', async () => {
+    await client.query(`
+      CREATE POLICY test_other ON api.test_table FOR SELECT TO supabase_read_only_user USING (false);
+    `);
+    const findings = await supabaseTests.checkRLSPolicies('api', zoneRoles);
+    expect(findings).toEqual([expect.objectContaining({ rule: 'policy-role-outside-zone', grantee: 'supabase_read_only_user' })]);
+    await client.query(`DROP POLICY test_other ON api.test_table;`);
+  })
+  test('FORCE ROW LEVEL SECURITY is only required when asked for', async () => {
+    await supabaseTests.assertRLSPolicies('api', zoneRoles);
+    const findings = await supabaseTests.checkRLSPolicies('api', zoneRoles, { requireForceRLS: true });
+    expect(findings).toEqual([expect.objectContaining({ rule: 'rls-not-forced', fix: 'ALTER TABLE api.test_table FORCE ROW LEVEL SECURITY;' })]);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+    `);
+  })
+})
+
+describe.sequential('assertViewsAreSecurityInvoker', async () => {
+  test('the test fails if a view is not security_invoker', async () => {
+    await client.query(`
+      CREATE VIEW api.test_view AS SELECT 1 AS id;
+    `);
+    const findings = await supabaseTests.checkViewsAreSecurityInvoker('api');
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'view-security-definer',
+      fix: 'ALTER VIEW api.test_view SET (security_invoker = true);',
+    })]);
+  })
+  test('the test passes if the view is allowed', async () => {
+    await supabaseTests.assertViewsAreSecurityInvoker('api', ['test_view']);
+  })
+  test('the test passes if the view is security_invoker', async () => {
+    await client.query(`
+      ALTER VIEW api.test_view SET (security_invoker = true);
+    `);
+    await supabaseTests.assertViewsAreSecurityInvoker('api');
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP VIEW IF EXISTS api.test_view;
+    `);
+  })
+})
+
+describe.sequential('assertNoExposedMaterializedViews', async () => {
+  test('the test fails if a materialized view is readable by a zone role', async () => {
+    await client.query(`
+      CREATE MATERIALIZED VIEW api.test_materialized_view AS SELECT 1 AS id;
+    `);
+    const findings = await supabaseTests.checkNoExposedMaterializedViews('api', ['anon', 'authenticated']);
+    expect(findings.map(f => f.grantee)).toEqual(['anon', 'authenticated']);
+  })
+  test('the test passes if the materialized view is allowed', async () => {
+    await supabaseTests.assertNoExposedMaterializedViews('api', ['anon', 'authenticated'], ['test_materialized_view']);
+  })
+  test('the test passes if the materialized view is not readable', async () => {
+    await client.query(`
+      REVOKE SELECT ON api.test_materialized_view FROM anon, authenticated;
+    `);
+    await supabaseTests.assertNoExposedMaterializedViews('api', ['anon', 'authenticated']);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP MATERIALIZED VIEW IF EXISTS api.test_materialized_view;
+    `);
+  })
+})
+
+describe.sequential('asRole', async () => {
+  const alice = '00000000-0000-0000-0000-00000000000a';
+  const bob = '00000000-0000-0000-0000-00000000000b';
+  beforeAll(async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY, owner_id uuid NOT NULL);
+      ALTER TABLE api.test_table ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY test_select ON api.test_table FOR SELECT TO authenticated USING (owner_id = auth.uid());
+      CREATE POLICY test_insert ON api.test_table FOR INSERT TO authenticated WITH CHECK (owner_id = auth.uid());
+      INSERT INTO api.test_table (owner_id) VALUES ('${alice}'), ('${bob}'), ('${bob}');
+      CREATE FUNCTION private.test_function() RETURNS int LANGUAGE sql AS 'SELECT 1';
+    `);
+  })
+  test('queries run as the role with the JWT claims', async () => {
+    await supabaseTests.asRole('authenticated', { sub: alice }, async (session) => {
+      const [row] = await session.query(`SELECT current_user AS role, auth.uid() AS uid, auth.jwt()->>'role' AS claim`);
+      expect(row).toEqual({ role: 'authenticated', uid: alice, claim: 'authenticated' });
+    });
+  })
+  test('the role claim is always the role of the session', async () => {
+    await supabaseTests.asRole('authenticated', { sub: alice, role: 'service_role' }, async (session) => {
+      const [row] = await session.query(`SELECT auth.jwt()->>'role' AS claim`);
+      expect(row).toEqual({ claim: 'authenticated' });
+    });
+  })
+  test('policies decide which rows can be selected', async () => {
+    await supabaseTests.asRole('authenticated', { sub: alice }, async (session) => {
+      await session.assertCanSelect('SELECT * FROM api.test_table', 1);
+    });
+    await supabaseTests.asRole('authenticated', { sub: bob }, async (session) => {
+      await session.assertCanSelect('SELECT * FROM api.test_table', 2);
+    });
+    await supabaseTests.asRole('anon', {}, async (session) => {
+      await session.assertCanSelect('SELECT * FROM api.test_table', 0);
+    });
+  })
+  test('inserts are rejected by policy without aborting the session', async () => {
+    await supabaseTests.asRole('authenticated', { sub: alice }, async (session) => {
+      await session.assertRejectedByPolicy('INSERT INTO api.test_table (owner_id) VALUES ($1)', [bob]);
+      await session.assertAffectsRows('INSERT INTO api.test_table (owner_id) VALUES ($1)', 1, [alice]);
+      await session.assertCanSelect('SELECT * FROM api.test_table', 2);
+    });
+  })
+  test('functions in private cannot be executed by api roles', async () => {
+    await supabaseTests.asRole('authenticated', { sub: alice }, async (session) => {
+      await session.assertCannotExecute('private.test_function()');
+    });
+  })
+  test('everything done as the role is rolled back', async () => {
+    const res = await client.query(`SELECT current_user AS role, count(*)::int AS count FROM api.test_table`);
+    expect(res.rows[0]).toEqual({ role: 'postgres', count: 3 });
+  })
+  test('attempt returns the error instead of throwing', async () => {
+    const result = await supabaseTests.asRole('authenticated', { sub: alice }, session =>
+      session.attempt('INSERT INTO api.test_table (owner_id) VALUES ($1)', [bob])
+    );
+    expect(result.ok).toBe(false);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+      DROP FUNCTION IF EXISTS private.test_function;
+    `);
+  })
+})
+
+describe.sequential('effective privileges', async () => {
+  const privateRoles = ['service_role', 'postgres'];
+  beforeAll(async () => {
+    await client.query(`
+      CREATE ROLE test_member_role;
+      CREATE TABLE private.test_table (id SERIAL PRIMARY KEY, secret TEXT);
+      CREATE FUNCTION private.test_function() RETURNS void LANGUAGE sql AS '';
+    `);
+  })
+  test('a role that is a member of an allowed role is reported with its membership chain', async () => {
+    await client.query(`
+      GRANT service_role TO test_member_role;
+    `);
+    const findings = await supabaseTests.checkNoTablesWithExtraRoles('private', privateRoles);
+    expect(findings).toContainEqual(expect.objectContaining({
+      rule: 'table-extra-grant',
+      object: 'test_table',
+      grantee: 'test_member_role',
+      privilege: 'SELECT',
+      chain: ['test_member_role', 'service_role'],
+      fix: 'REVOKE service_role FROM test_member_role;',
+    }));
+    expect(await supabaseTests.checkNoRoutinesWithExtraRoles('private', privateRoles)).toContainEqual(
+      expect.objectContaining({ rule: 'routine-extra-grant', grantee: 'test_member_role', chain: ['test_member_role', 'service_role'] })
+    );
+    expect(await supabaseTests.checkNoSequencesWithExtraRoles('private', privateRoles)).toContainEqual(
+      expect.objectContaining({ rule: 'sequence-extra-grant', grantee: 'test_member_role' })
+    );
+  })
+  test('a membership without inheritance does not grant access', async () => {
+    await client.query(`
+      ALTER ROLE test_member_role NOINHERIT;
+    `);
+    await supabaseTests.assertNoTablesWithExtraRoles('private', privateRoles);
+    await client.query(`
+      ALTER ROLE test_member_role INHERIT;
+      REVOKE service_role FROM test_member_role;
+    `);
+  })
+  test('a grant to PUBLIC is reported once', async () => {
+    await client.query(`
+      GRANT SELECT ON private.test_table TO PUBLIC;
+    `);
+    const findings = await supabaseTests.checkNoTablesWithExtraRoles('private', privateRoles);
+    expect(findings).toEqual([expect.objectContaining({
+      grantee: 'PUBLIC',
+      chain: ['PUBLIC'],
+      fix: 'REVOKE SELECT ON TABLE private.test_table FROM PUBLIC;',
+    })]);
+    await client.query(`
+      REVOKE SELECT ON private.test_table FROM PUBLIC;
+    `);
+  })
+  test('a routine executable by PUBLIC is reported once', async () => {
+    await client.query(`
+      GRANT EXECUTE ON FUNCTION private.test_function() TO PUBLIC;
+    `);
+    await supabaseTests.assertNoRoutinesWithExtraRoles('private', privateRoles);
+    await expect(supabaseTests.assertNoPublicExecute('private')).rejects.toThrow('PUBLIC');
+    const audited = await supabaseTests.auditZones(defaultZoneConfig);
+    expect(audited.filter(f => f.object === 'test_function' && f.grantee === 'PUBLIC').map(f => f.rule)).toEqual(['routine-public-execute']);
+    await client.query(`
+      REVOKE EXECUTE ON FUNCTION private.test_function() FROM PUBLIC;
+    `);
+  })
+  test('column-level grants are checked', async () => {
+    await client.query(`
+      GRANT SELECT (secret) ON private.test_table TO test_member_role;
+    `);
+    const findings = await supabaseTests.checkNoColumnsWithExtraRoles('private', privateRoles);
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'column-extra-grant',
+      object: 'test_table.secret',
+      kind: 'column',
+      fix: 'REVOKE SELECT (secret) ON TABLE private.test_table FROM test_member_role;',
+    })]);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS private.test_table;
+      DROP FUNCTION IF EXISTS private.test_function;
+      DROP ROLE IF EXISTS test_member_role;
+    `);
+  })
+})
+
+describe.sequential('exceptions', async () => {
+  const roles = ['anon', 'authenticated', 'service_role', 'postgres'];
+  beforeAll(async () => {
+    await client.query(`
+      CREATE ROLE test_reporting_role;
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+      GRANT SELECT ON TABLE api.test_table TO test_reporting_role;
+    `);
+  })
+  test('a finding covered by an exception does not fail the test', async () => {
+    const tests = new SupabaseTests(client, { exceptions: [
+      { rule: 'table-extra-grant', schema: 'api', object: 'test_table', grantee: 'test_reporting_role', reason: 'Read replica reporting' },
+    ] });
+    await tests.assertNoTablesWithExtraRoles('api', roles);
+    tests.assertExceptionsUsed();
+  })
+  test('the test fails if an exception does not match any finding', async () => {
+    const tests = new SupabaseTests(client, { exceptions: [
+      { rule: 'table-extra-grant', schema: 'api', object: 'other_table', reason: 'Read replica reporting' },
+    ] });
+    await expect(tests.assertNoTablesWithExtraRoles('api', roles)).rejects.toThrow('"api.test_table"');
+    expect(() => tests.assertExceptionsUsed()).toThrow('[exception-unused]');
+  })
+  test('the test fails if an exception has expired', async () => {
+    const tests = new SupabaseTests(client, { exceptions: [
+      { rule: 'table-extra-grant', object: 'test_table', reason: 'Read replica reporting', expires: '2000-01-01' },
+    ] });
+    await expect(tests.assertNoTablesWithExtraRoles('api', roles)).rejects.toThrow('"api.test_table"');
+    expect(() => tests.assertExceptionsUsed()).toThrow('[exception-expired]');
+  })
+  test('auditZones leaves out covered findings, and unused exceptions are reported afterwards', async () => {
+    const tests = new SupabaseTests(client, { exceptions: [
+      { rule: 'table-extra-grant', object: 'test_table', grantee: 'test_reporting_role', reason: 'Read replica reporting' },
+      { rule: 'rls-disabled', object: 'other_table', reason: 'Reference data' },
+    ] });
+    const findings = await tests.auditZones(defaultZoneConfig);
+    expect(findings.filter(f => f.rule === 'table-extra-grant')).toEqual([]);
+    expect(findings.filter(f => f.rule.startsWith('exception-'))).toEqual([]);
+    expect(tests.checkExceptions()).toEqual([expect.objectContaining({ rule: 'exception-unused' })]);
+  })
+  test('an exception used by another assertion is not stale after auditZones', async () => {
+    await client.query(`
+      CREATE VIEW public.test_public_view AS SELECT 1 AS id;
+    `);
+    const tests = new SupabaseTests(client, { exceptions: [
+      { rule: 'table-extra-grant', object: 'test_table', grantee: 'test_reporting_role', reason: 'Read replica reporting' },
+      { rule: 'public-schema-object', object: 'test_public_view', reason: 'Legacy view' },
+    ] });
+    await tests.auditZones(defaultZoneConfig);
+    await tests.assertPublicSchema(defaultZoneConfig);
+    tests.assertExceptionsUsed();
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP VIEW IF EXISTS public.test_public_view;
+      DROP TABLE IF EXISTS api.test_table;
+      DROP ROLE IF EXISTS test_reporting_role;
+    `);
+  })
+})
+
+describe.sequential('assertSnapshot', async () => {
+  let snapshot:SecuritySnapshot;
+  beforeAll(async () => {
+    await client.query(`
+      CREATE TABLE private.test_table (id SERIAL PRIMARY KEY);
+      ALTER TABLE private.test_table ENABLE ROW LEVEL SECURITY;
+    `);
+    snapshot = await takeSnapshot(client, ['private']);
+  })
+  test('the snapshot lists the objects with their grants', async () => {
+    expect(snapshot.objects).toContainEqual({
+      schema: 'private',
+      name: 'test_table',
+      kind: 'table',
+      owner: 'postgres',
+      grants: { service_role: ['DELETE', 'INSERT', 'SELECT', 'UPDATE'] },
+      rls: { enabled: true, forced: false },
+      policies: [],
+    });
+    expect(await supabaseTests.checkSnapshot(snapshot)).toEqual([]);
+  })
+  test('the test fails if access changes after the snapshot', async () => {
+    await client.query(`
+      GRANT SELECT ON private.test_table TO authenticated;
+      CREATE POLICY test_policy ON private.test_table FOR SELECT TO authenticated USING (true);
+    `);
+    const findings = await supabaseTests.checkSnapshot(snapshot);
+    expect(findings.map(f => f.message)).toEqual([
+      'Table "private.test_table" grants SELECT to "authenticated", which is not in the snapshot',
+      'Policy "test_policy" on table "private.test_table" is not in the snapshot: permissive SELECT to authenticated using true with check (none)',
+    ]);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS private.test_table;
+    `);
+  })
+})
+
+describe.sequential('assertPostgrestSchemas', async () => {
+  test('the test passes if pgrst.db_schemas is not set', async () => {
+    await supabaseTests.assertPostgrestSchemas(defaultZoneConfig);
+  })
+  test('the test fails if pgrst.db_schemas exposes an internal zone', async () => {
+    await client.query(`
+      ALTER ROLE authenticator SET pgrst.db_schemas = 'api, private';
+    `);
+    const findings = await supabaseTests.checkPostgrestSchemas(defaultZoneConfig, {
+      file: 'supabase/config.toml', schemas: ['api'], extraSearchPath: [], lines: {},
+    });
+    expect(findings.map(f => f.rule)).toEqual(['api-exposes-internal-zone', 'api-schemas-mismatch']);
+    expect(findings[0]?.message).toBe('pgrst.db_schemas of role "authenticator" exposes "private", which is an internal zone');
+  })
+  afterAll(async()=>{
+    await client.query(`
+      ALTER ROLE authenticator RESET pgrst.db_schemas;
+    `);
+  })
+})
+
+describe.sequential('generateEventTriggerSql', async () => {
+  beforeAll(async () => {
+    await client.query(generateEventTriggerSql(defaultZoneConfig));
+    await client.query(`
+      CREATE ROLE test_ddl_role;
+      GRANT CREATE ON SCHEMA api TO test_ddl_role;
+      GRANT test_ddl_role TO postgres;
+    `);
+  })
+  test('new tables in an exposed zone get RLS', async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+    `);
+    const res = await client.query(`
+      SELECT relrowsecurity FROM pg_catalog.pg_class WHERE oid = 'api.test_table'::regclass;
+    `) as { rows: { relrowsecurity: boolean }[] };
+    expect(res.rows[0]?.relrowsecurity).toBe(true);
+    await supabaseTests.assertRLSEnabledForTablesAndMaterializedViews('api');
+  })
+  test('disabling RLS in an exposed zone is rejected', async () => {
+    await expect(client.query(`
+      ALTER TABLE api.test_table DISABLE ROW LEVEL SECURITY;
+    `)).rejects.toThrow('Table "api.test_table" does not have RLS enabled');
+  })
+  test('tables in an internal zone are left alone', async () => {
+    await client.query(`
+      CREATE TABLE private.test_table (id SERIAL PRIMARY KEY);
+      ALTER TABLE private.test_table DISABLE ROW LEVEL SECURITY;
+    `);
+  })
+  test('SECURITY DEFINER routines are rejected in an exposed zone only', async () => {
+    await expect(client.query(`
+      CREATE FUNCTION api.test_function() RETURNS void LANGUAGE sql SECURITY DEFINER SET search_path = '' AS '';
+    `)).rejects.toThrow('Routine "api.test_function()" is SECURITY DEFINER, which is not allowed in the exposed zone "api"');
+    await client.query(`
+      CREATE FUNCTION api.test_function() RETURNS void LANGUAGE sql AS '';
+      CREATE FUNCTION private.test_function() RETURNS void LANGUAGE sql SECURITY DEFINER SET search_path = '' AS '';
+    `);
+    await expect(client.query(`
+      ALTER FUNCTION api.test_function() SECURITY DEFINER;
+    `)).rejects.toThrow('is SECURITY DEFINER');
+  })
+  test('objects created by another role are rejected', async () => {
+    await client.query('SET ROLE test_ddl_role');
+    try {
+      await expect(client.query(`
+        CREATE TABLE api.test_other_table (id integer);
+      `)).rejects.toThrow('Table "api.test_other_table" is owned by "test_ddl_role" instead of "postgres"');
+    } finally {
+      await client.query('RESET ROLE');
+    }
+    await expect(client.query(`
+      ALTER FUNCTION api.test_function() OWNER TO test_ddl_role;
+    `)).rejects.toThrow('Function "api.test_function()" is owned by "test_ddl_role" instead of "postgres"');
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP EVENT TRIGGER IF EXISTS enforce_zone_rules;
+      DROP FUNCTION IF EXISTS private.enforce_zone_rules;
+      DROP TABLE IF EXISTS api.test_table;
+      DROP TABLE IF EXISTS private.test_table;
+      DROP FUNCTION IF EXISTS api.test_function;
+      DROP FUNCTION IF EXISTS private.test_function;
+      REVOKE CREATE ON SCHEMA api FROM test_ddl_role;
+      DROP ROLE IF EXISTS test_ddl_role;
+    `);
+  })
+})
+
+describe.sequential('assertPublications', async () => {
+  beforeAll(async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+      CREATE TABLE private.test_table (id SERIAL PRIMARY KEY);
+      CREATE PUBLICATION test_publication FOR TABLE api.test_table, private.test_table;
+    `);
+  })
+  test('the test fails for published internal tables and exposed tables without RLS', async () => {
+    expect(await supabaseTests.checkPublications('private')).toEqual([{
+      rule: 'publication-internal-table',
+      severity: 'error',
+      schema: 'private',
+      object: 'test_table',
+      kind: 'table',
+      message: 'Table "private.test_table" is published in "test_publication", but "private" is not an exposed zone',
+      fix: 'ALTER PUBLICATION test_publication DROP TABLE private.test_table;',
+    }]);
+    const findings = await supabaseTests.checkPublications('api', { exposed: true });
+    expect(findings.map(f => f.rule)).toEqual(['publication-without-rls']);
+    await expect(supabaseTests.assertPublications('api', { exposed: true })).rejects.toThrow('published in "test_publication" without RLS');
+  })
+  test('the test passes for exposed tables with RLS', async () => {
+    await client.query(`
+      ALTER TABLE api.test_table ENABLE ROW LEVEL SECURITY;
+    `);
+    await supabaseTests.assertPublications('api', { exposed: true });
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP PUBLICATION IF EXISTS test_publication;
+      DROP TABLE IF EXISTS api.test_table;
+      DROP TABLE IF EXISTS private.test_table;
+    `);
+  })
+})
+
+describe.sequential('assertStorage', async () => {
+  beforeAll(async () => {
+    await client.query(`
+      INSERT INTO storage.buckets (id, name, public) VALUES
+        ('test_private_bucket', 'test_private_bucket', false),
+        ('test_public_bucket', 'test_public_bucket', true);
+    `);
+  })
+  test('the test passes for the default storage setup', async () => {
+    await supabaseTests.assertStorage();
+  })
+  test('policies limited to a public bucket pass', async () => {
+    await client.query(`
+      CREATE POLICY test_public_policy ON storage.objects FOR SELECT TO anon USING (bucket_id = 'test_public_bucket');
+    `);
+    await supabaseTests.assertStorage();
+  })
+  test('the test fails for unrestricted anon policies', async () => {
+    await client.query(`
+      CREATE POLICY test_private_policy ON storage.objects FOR SELECT TO anon USING (bucket_id = 'test_private_bucket');
+      CREATE POLICY test_true_policy ON storage.objects FOR INSERT TO public WITH CHECK (true);
+    `);
+    const findings = await supabaseTests.checkStorage();
+    expect(findings.map(f => f.message)).toEqual([
+      'Policy "test_private_policy" on "storage.objects" allows SELECT on every object in the non-public bucket "test_private_bucket" to "anon"',
+      'Policy "test_true_policy" on "storage.objects" allows INSERT on the objects of every bucket to "PUBLIC"',
+    ]);
+    await expect(supabaseTests.assertStorage()).rejects.toThrow('Unsafe storage access found');
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP POLICY IF EXISTS test_public_policy ON storage.objects;
+      DROP POLICY IF EXISTS test_private_policy ON storage.objects;
+      DROP POLICY IF EXISTS test_true_policy ON storage.objects;
+      DELETE FROM storage.buckets WHERE id IN ('test_private_bucket', 'test_public_bucket');
+    `);
+  })
+})
+
+describe.sequential('takeInventory', async () => {
+  beforeAll(async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+      CREATE FUNCTION private.test_function() RETURNS void LANGUAGE sql AS '';
+      CREATE FUNCTION private.test_function(integer) RETURNS void LANGUAGE sql AS '';
+    `);
+  })
+  test('tables and routines are listed once, and roles without the owner', async () => {
+    const inventory = await takeInventory(client, defaultZoneConfig);
+    expect(inventory.objects).toContainEqual({ schema: 'api', name: 'test_table', kind: 'table', label: 'Table' });
+    expect(inventory.objects.filter(o => o.name === 'test_function')).toEqual([
+      { schema: 'private', name: 'test_function', kind: 'function', label: 'Function' },
+    ]);
+    expect(inventory.objects.some(o => o.name === 'test_table_id_seq')).toBe(false);
+    expect(inventory.roles).toEqual(['anon', 'authenticated', 'postgres', 'service_role']);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+      DROP FUNCTION IF EXISTS private.test_function();
+      DROP FUNCTION IF EXISTS private.test_function(integer);
+    `);
+  })
+})
+
+describe.sequential('assertPublicSchema', async () => {
+  beforeAll(async () => {
+    await client.query(`
+      CREATE ROLE test_create_role;
+      CREATE ROLE test_creator_role IN ROLE test_create_role;
+    `);
+  })
+  test('the test passes for the schema setup', async () => {
+    await supabaseTests.assertPublicSchema(defaultZoneConfig);
+    await supabaseTests.assertNoCreateOnSchemas(['public', 'api', 'private']);
+  })
+  test('the test fails for application objects in public, unless they are allowed', async () => {
+    await client.query(`
+      CREATE TABLE public.test_table (id SERIAL PRIMARY KEY);
+      CREATE FUNCTION public.test_function() RETURNS void LANGUAGE sql AS '';
+    `);
+    const findings = await supabaseTests.checkPublicSchema(defaultZoneConfig);
+    expect(findings.map(f => f.message)).toEqual([
+      'Function "public.test_function" is in the public schema instead of a zone',
+      'Table "public.test_table" is in the public schema instead of a zone',
+    ]);
+    await supabaseTests.assertPublicSchema({ ...defaultZoneConfig, publicObjects: ['test_table', 'test_function'] });
+  })
+  test('the test fails if a role can create objects in a zone', async () => {
+    await client.query(`
+      GRANT CREATE ON SCHEMA private TO authenticated;
+      GRANT CREATE ON SCHEMA api TO test_create_role;
+    `);
+    const findings = await supabaseTests.checkNoCreateOnSchemas(['public', 'api', 'private'], ['anon', 'authenticated', 'test_creator_role']);
+    expect(findings.map(f => [f.message, f.fix])).toEqual([
+      ['Role "test_creator_role" has CREATE on schema "api" through a role it is a member of', undefined],
+      ['Role "authenticated" has CREATE on schema "private"', 'REVOKE CREATE ON SCHEMA private FROM authenticated;'],
+    ]);
+    const audited = await supabaseTests.auditZones(defaultZoneConfig);
+    expect(audited.filter(f => f.rule === 'schema-create').map(f => `${f.schema} ${f.grantee}`)).toEqual(['private authenticated']);
+  })
+  test('the test fails for routines that PUBLIC can execute', async () => {
+    await client.query(`
+      GRANT EXECUTE ON FUNCTION public.test_function() TO PUBLIC;
+    `);
+    expect(await supabaseTests.checkNoPublicExecute('public')).toEqual([{
+      rule: 'routine-public-execute',
+      severity: 'error',
+      schema: 'public',
+      object: 'test_function',
+      kind: 'function',
+      grantee: 'PUBLIC',
+      privilege: 'EXECUTE',
+      message: 'Routine "public.test_function()" can be executed by PUBLIC, i.e. every role',
+      fix: 'REVOKE EXECUTE ON FUNCTION public.test_function() FROM PUBLIC;',
+    }]);
+    await supabaseTests.assertNoPublicExecute('api');
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS public.test_table;
+      DROP FUNCTION IF EXISTS public.test_function;
+      REVOKE CREATE ON SCHEMA private FROM authenticated;
+      REVOKE CREATE ON SCHEMA api FROM test_create_role;
+      DROP ROLE IF EXISTS test_creator_role;
+      DROP ROLE IF EXISTS test_create_role;
+    `);
+  })
+})
+
+describe.sequential('formatMatrixMarkdown', async () => {
+  beforeAll(async () => {
+    await client.query(`
+      CREATE TABLE api.test_table (id SERIAL PRIMARY KEY);
+    `);
+  })
+  test('the matrix highlights the findings of auditZones', async () => {
+    const findings = await supabaseTests.auditZones(defaultZoneConfig);
+    const markdown = formatMatrixMarkdown(await takeSnapshot(client, ['api']), findings);
+    const number = findings.findIndex(f => f.rule === 'rls-disabled' && f.object === 'test_table') + 1;
+    expect(markdown).toContain(`| table test_table | postgres | **disabled** (#${number}) |`);
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP TABLE IF EXISTS api.test_table;
+    `);
+  })
+})
+
+describe.sequential('supabaseLinterRules', async () => {
+  const rule = (id:string) => supabaseLinterRules.find(r => r.id === id)!;
+  beforeAll(async () => {
+    await client.query(`
+      CREATE TABLE api.test_parent (id SERIAL PRIMARY KEY);
+      CREATE TABLE api.test_child (id SERIAL PRIMARY KEY, parent_id INT REFERENCES api.test_parent (id), user_id UUID);
+      ALTER TABLE api.test_child ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY test_own_rows ON api.test_child FOR SELECT TO authenticated USING (user_id = auth.uid());
+      CREATE POLICY test_parent_rows ON api.test_child FOR ALL TO authenticated USING (parent_id IS NOT NULL);
+      CREATE VIEW api.test_users_view AS SELECT id, email FROM auth.users;
+    `);
+  })
+  test('foreign keys without an index are reported', async () => {
+    const findings = await supabaseTests.checkRule(rule('unindexed-foreign-key'), 'api');
+    expect(findings).toEqual([{
+      rule: 'unindexed-foreign-key',
+      severity: 'warning',
+      schema: 'api',
+      object: 'test_child',
+      kind: 'table',
+      message: 'Foreign key "test_child_parent_id_fkey" on "api.test_child" (parent_id) has no index, and a policy of the table uses it',
+      fix: 'CREATE INDEX ON api.test_child (parent_id);',
+    }]);
+    await client.query(findings[0]!.fix!);
+    await supabaseTests.assertRule(rule('unindexed-foreign-key'), 'api');
+  })
+  test('views that expose auth.users are reported unless they are security_invoker', async () => {
+    await client.query(`
+      GRANT SELECT ON api.test_users_view TO anon, authenticated;
+    `);
+    const findings = await supabaseTests.checkRule(rule('auth-users-exposed'), 'api');
+    expect(findings.map(f => [f.severity, f.message])).toEqual([
+      ['error', 'View "api.test_users_view" exposes auth.users to "anon" and "authenticated"'],
+    ]);
+    await client.query(`
+      ALTER VIEW api.test_users_view SET (security_invoker = true);
+    `);
+    await supabaseTests.assertRule(rule('auth-users-exposed'), 'api');
+  })
+  test('policies that call auth.uid() for every row are reported', async () => {
+    const findings = await supabaseTests.checkRule(rule('auth-rls-initplan'), 'api');
+    expect(findings.map(f => f.message)).toEqual([
+      'Policy "test_own_rows" on "api.test_child" calls auth.uid() for every row; wrap it in (select ...) to call it once',
+    ]);
+    await client.query(`
+      ALTER POLICY test_own_rows ON api.test_child USING (user_id = (SELECT auth.uid()));
+    `);
+    await supabaseTests.assertRule(rule('auth-rls-initplan'), 'api');
+  })
+  test('permissive policies for the same role and command are reported', async () => {
+    const findings = await supabaseTests.checkRule(rule('multiple-permissive-policies'), 'api');
+    expect(findings.map(f => f.message)).toEqual([
+      'Table "api.test_child" has 2 permissive SELECT policies for "authenticated" (test_own_rows, test_parent_rows); combine them into one',
+    ]);
+    await client.query(`
+      ALTER POLICY test_parent_rows ON api.test_child TO service_role;
+    `);
+    await supabaseTests.assertRule(rule('multiple-permissive-policies'), 'api');
+  })
+  test('registered rules run in auditZones', async () => {
+    const updatedAt:Rule<{ table_name:string }> = {
+      id: 'updated-at-missing',
+      severity: 'error',
+      exposed: true,
+      query: `
+        SELECT c.relname AS table_name
+        FROM pg_catalog.pg_class c
+        JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = $1 AND c.relkind = 'r'
+          AND NOT EXISTS (SELECT 1 FROM pg_catalog.pg_attribute a WHERE a.attrelid = c.oid AND a.attname = 'updated_at' AND NOT a.attisdropped)
+        ORDER BY 1;
+      `,
+      map: row => ({ object: row.table_name, kind: 'table', message: `Table "${row.table_name}" has no updated_at column` }),
+    };
+    const auditor = new SupabaseTests(client, { rules: supabaseLinterRules });
+    auditor.registerRule(updatedAt);
+    const findings = await auditor.auditZones(defaultZoneConfig);
+    expect(findings.filter(f => f.rule === 'updated-at-missing').map(f => f.object)).toEqual(['test_child', 'test_parent']);
+    await expect(auditor.assertRules('private')).resolves.toBeUndefined();
+    await expect(auditor.assertRules('api', { exposed: true })).rejects.toThrow('Table "test_child" has no updated_at column');
+  })
+  afterAll(async()=>{
+    await client.query(`
+      DROP VIEW IF EXISTS api.test_users_view;
+      DROP TABLE IF EXISTS api.test_child;
+      DROP TABLE IF EXISTS api.test_parent;
+    `);
+  })
+})
@@ -0,0 +1,129 @@
+// =============================================================================
+// LINT TESTS
+// =============================================================================
+//
+// This file contains the tests for the offline linter of migration and schema
+// SQL files. They do not need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { defaultZoneConfig, lintFiles, lintSql, splitStatements, sqlFiles } from '../src/index.js';
+
+const lint = (sql:string) => lintSql([{ path: 'migration.sql', sql }], defaultZoneConfig);
+
+describe('splitStatements', () => {
+  test('semicolons in comments, strings and function bodies do not end a statement', () => {
+    const statements = splitStatements(`
+      -- a comment; with a semicolon
+      CREATE TABLE api.notes (
+        note text DEFAULT 'a;b'
+      );
+      /* a /* nested */ comment; */
+      CREATE FUNCTION api.f() RETURNS int LANGUAGE sql AS $body$ SELECT 1; $body$;
+    `);
+    expect(statements).toEqual([
+      { text: `CREATE TABLE api.notes ( note text DEFAULT 'a;b' )`, line: 3 },
+      { text: 'CREATE FUNCTION api.f() RETURNS int LANGUAGE sql AS $$ $$', line: 7 },
+    ]);
+  })
+  test('a backslash escapes the quote in E strings', () => {
+    expect(splitStatements(`select E'it\\'s; fine'; create table api.x(id int);`)).toEqual([
+      { text: `select E'it\\'s; fine'`, line: 1 },
+      { text: 'create table api.x(id int)', line: 1 },
+    ]);
+    expect(splitStatements(`select 'a\\'; select 1;`).map(s => s.text)).toEqual([`select 'a\\'`, 'select 1']);
+  })
+})
+
+describe('lintSql', () => {
+  test('a table in an exposed zone needs RLS', () => {
+    expect(lint(`
+      CREATE TABLE api.todos (id int);
+    `)).toEqual([{
+      rule: 'lint-table-without-rls',
+      severity: 'error',
+      schema: 'api',
+      object: 'todos',
+      kind: 'table',
+      message: 'Table "api.todos" is created without ENABLE ROW LEVEL SECURITY',
+      fix: 'ALTER TABLE api.todos ENABLE ROW LEVEL SECURITY;',
+      file: 'migration.sql',
+      line: 2,
+    }]);
+    expect(lint(`
+      CREATE TABLE api.todos (id int);
+      ALTER TABLE ONLY api.todos ENABLE ROW LEVEL SECURITY;
+      CREATE TABLE private.jobs (id int);
+    `)).toEqual([]);
+  })
+  test('RLS may be enabled in a later file', () => {
+    expect(lintSql([
+      { path: 'schema.sql', sql: 'CREATE TABLE api.todos (id int);' },
+      { path: 'rls.sql', sql: 'ALTER TABLE api.todos ENABLE ROW LEVEL SECURITY;' },
+    ], defaultZoneConfig)).toEqual([]);
+  })
+  test('dropped tables are forgotten', () => {
+    expect(lint(`
+      CREATE TABLE api.todos (id int);
+      CREATE TABLE api.notes (id int);
+      DROP TABLE IF EXISTS api.todos, notes CASCADE;
+    `)).toEqual([]);
+  })
+  test('renamed tables keep their RLS', () => {
+    expect(lint(`
+      CREATE TABLE api.todos (id int);
+      ALTER TABLE api.todos ENABLE ROW LEVEL SECURITY;
+      ALTER TABLE api.todos RENAME TO tasks;
+    `)).toEqual([]);
+    expect(lint(`
+      CREATE TABLE api.todos (id int);
+      ALTER TABLE api.todos RENAME TO tasks;
+      ALTER TABLE api.todos ENABLE ROW LEVEL SECURITY;
+    `).map(f => `${f.line} ${f.rule} ${f.schema}.${f.object}`)).toEqual(['2 lint-table-without-rls api.tasks']);
+  })
+  test('tables moved to another schema are checked in that schema', () => {
+    expect(lint(`
+      CREATE TABLE private.jobs (id int);
+      ALTER TABLE private.jobs SET SCHEMA api;
+    `).map(f => `${f.line} ${f.rule} ${f.schema}.${f.object}`)).toEqual(['2 lint-table-without-rls api.jobs']);
+    expect(lint(`
+      CREATE TABLE api.jobs (id int);
+      ALTER TABLE api.jobs SET SCHEMA private;
+    `)).toEqual([]);
+  })
+  test('unqualified names resolve through the search_path', () => {
+    expect(lint(`
+      CREATE TABLE todos (id int);
+      SET search_path = public;
+      CREATE TABLE notes (id int);
+    `).map(f => `${f.line} ${f.rule} ${f.schema}.${f.object}`)).toEqual([
+      '4 lint-table-in-public public.notes',
+      '2 lint-table-without-rls api.todos',
+      '4 lint-table-without-rls public.notes',
+    ]);
+  })
+  test('risky statements are reported with their line', () => {
+    const findings = lint(`
+      ALTER TABLE api.todos DISABLE ROW LEVEL SECURITY;
+      CREATE OR REPLACE FUNCTION api.f() RETURNS int LANGUAGE sql SECURITY DEFINER AS $$ SELECT 1 $$;
+      CREATE FUNCTION private.g() RETURNS int LANGUAGE sql SECURITY DEFINER SET search_path = '' AS $$ SELECT 1 $$;
+      GRANT SELECT ON ALL TABLES IN SCHEMA private TO anon, PUBLIC, service_role;
+      ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA private GRANT EXECUTE ON ROUTINES TO authenticated;
+      ALTER ROLE anon SET search_path = api, public;
+    `);
+    expect(findings.map(f => `${f.line} ${f.rule} ${f.grantee ?? f.object}`)).toEqual([
+      '2 lint-disable-rls todos',
+      '3 lint-security-definer f',
+      '5 lint-grant-outside-zone anon',
+      '5 lint-grant-outside-zone PUBLIC',
+      '6 lint-grant-outside-zone authenticated',
+      '7 lint-search-path-public anon',
+    ]);
+  })
+})
+
+describe('lintFiles', () => {
+  test('the committed migrations and schema files pass', async () => {
+    expect(await lintFiles(await sqlFiles(), defaultZoneConfig)).toEqual([]);
+  })
+})
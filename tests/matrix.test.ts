@@ -0,0 +1,66 @@
+// =============================================================================
+// MATRIX TESTS
+// =============================================================================
+//
+// This file contains the tests for rendering the access matrix report. They do
+// not need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { formatMatrixHtml, formatMatrixMarkdown, type Finding, type SecuritySnapshot } from '../src/index.js';
+
+const snapshot:SecuritySnapshot = {
+  schemas: ['api'],
+  objects: [
+    { schema: 'api', name: 'api', kind: 'schema', owner: 'postgres', grants: { anon: ['USAGE'], authenticated: ['USAGE'] } },
+    {
+      schema: 'api',
+      name: 'todos',
+      kind: 'table',
+      owner: 'postgres',
+      grants: { anon: ['SELECT'], authenticated: ['DELETE', 'INSERT', 'SELECT', 'UPDATE WITH GRANT OPTION'] },
+      rls: { enabled: true, forced: false },
+      policies: [
+        { name: 'read_all', command: 'SELECT', permissive: true, roles: ['anon'], using: 'true', check: null },
+        { name: 'own_rows', command: 'ALL', permissive: true, roles: ['authenticated'], using: '(auth.uid() = owner)', check: null },
+      ],
+    },
+    { schema: 'api', name: 'add_todo(text)', kind: 'function', owner: 'postgres', grants: { authenticated: ['EXECUTE'] }, securityDefiner: true },
+  ],
+};
+
+const findings:Finding[] = [
+  { rule: 'policy-always-true', severity: 'warning', schema: 'api', object: 'todos', kind: 'table', grantee: 'anon', message: 'Policy "read_all" on "api.todos" allows SELECT on every row to "anon"' },
+  { rule: 'security-definer', severity: 'error', schema: 'api', object: 'add_todo', kind: 'function', message: 'Routine "api.add_todo" is SECURITY DEFINER' },
+  { rule: 'table-extra-grant', severity: 'error', schema: 'api', object: 'todos', kind: 'table', grantee: 'reporting', privilege: 'SELECT', message: 'Table "api.todos" grants SELECT to "reporting"' },
+  { rule: 'search-path-not-set', severity: 'error', object: 'anon', kind: 'role', message: 'Role "anon" does not have an explicit search_path' },
+];
+
+describe('formatMatrixMarkdown', () => {
+  test('one row per object and one column per role', () => {
+    expect(formatMatrixMarkdown(snapshot, [])).toContain([
+      '| Object | Owner | RLS | Policies | Security | anon | authenticated |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      '| schema api | postgres |  |  |  | U | U |',
+      '| table todos | postgres | enabled | SELECT: read_all; ALL: own_rows |  | r | arw*d |',
+      '| function add_todo(text) | postgres |  |  | SECURITY DEFINER |  | X |',
+    ].join('\n'));
+  })
+  test('violations are highlighted in their cell and listed', () => {
+    const markdown = formatMatrixMarkdown(snapshot, findings);
+    expect(markdown).toContain('| Object | Owner | RLS | Policies | Security | anon | authenticated | reporting |');
+    expect(markdown).toContain('| table todos | postgres | enabled | **SELECT: read_all; ALL: own_rows** (#1) |  | r | arw*d | **none** (#3) |');
+    expect(markdown).toContain('| **SECURITY DEFINER** (#2) |');
+    expect(markdown).toContain('4. error: [search-path-not-set] Role "anon" does not have an explicit search_path');
+  })
+})
+
+describe('formatMatrixHtml', () => {
+  test('violations are colored by severity and escaped', () => {
+    const html = formatMatrixHtml(snapshot, findings);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<td class="warning" title="Policy &quot;read_all&quot; on &quot;api.todos&quot; allows SELECT on every row to &quot;anon&quot;">SELECT: read_all; ALL: own_rows <sup><a href="#finding-1">1</a></sup></td>');
+    expect(html).toContain('<td class="error" title="Routine &quot;api.add_todo&quot; is SECURITY DEFINER">SECURITY DEFINER <sup><a href="#finding-2">2</a></sup></td>');
+    expect(html).toContain('<li id="finding-4">error: [search-path-not-set] Role &quot;anon&quot; does not have an explicit search_path</li>');
+  })
+})
@@ -0,0 +1,87 @@
+// =============================================================================
+// REMEDIATION TESTS
+// =============================================================================
+//
+// This file contains the tests for writing fixes to a migration. They do not
+// need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { buildRemediationSql, writeRemediationMigration, type Finding } from '../src/index.js';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const findings:Finding[] = [
+  {
+    rule: 'rls-disabled',
+    severity: 'error',
+    schema: 'api',
+    object: 'todos',
+    kind: 'table',
+    message: 'Table "api.todos" does not have RLS enabled',
+    fix: 'ALTER TABLE api.todos ENABLE ROW LEVEL SECURITY;',
+  },
+  {
+    rule: 'search-path-includes-public',
+    severity: 'error',
+    object: 'anon',
+    kind: 'role',
+    message: 'search_path for role "anon" includes "public": public, api',
+    fix: 'ALTER ROLE anon SET search_path = api;',
+  },
+  {
+    rule: 'search-path-mismatch',
+    severity: 'error',
+    object: 'anon',
+    kind: 'role',
+    message: 'search_path for role "anon" is "public, api", expected "api"',
+    fix: 'ALTER ROLE anon SET search_path = api;',
+  },
+  {
+    rule: 'schema-setup-drift',
+    severity: 'error',
+    object: 'setup.sql',
+    message: 'Schema setup file "setup.sql" is missing',
+  },
+];
+
+describe('buildRemediationSql', () => {
+  test('writes each fix once, after the finding it corrects', () => {
+    const sql = buildRemediationSql(findings);
+    expect(sql).toContain('-- [rls-disabled] Table "api.todos" does not have RLS enabled\nALTER TABLE api.todos ENABLE ROW LEVEL SECURITY;');
+    expect(sql.match(/ALTER ROLE anon/g)).toHaveLength(1);
+  })
+  test('lists findings without a fix for manual follow-up', () => {
+    expect(buildRemediationSql(findings)).toContain('-- These findings have no automatic fix:\n--   [schema-setup-drift]');
+  })
+  test('line breaks in names cannot end a comment', () => {
+    const sql = buildRemediationSql([
+      { ...findings[0]!, object: 'x\nDROP TABLE api.todos; --', message: 'Table "api.x\nDROP TABLE api.todos; --" does not have RLS enabled' },
+      { ...findings[3]!, message: 'Schema setup file "a\r\nb.sql" is missing' },
+    ]);
+    expect(sql.split('\n').filter(line => line.includes('DROP TABLE'))).toEqual([
+      '-- [rls-disabled] Table "api.x\\nDROP TABLE api.todos; --" does not have RLS enabled',
+    ]);
+    expect(sql).toContain('--   [schema-setup-drift] Schema setup file "a\\r\\nb.sql" is missing');
+  })
+})
+
+describe('writeRemediationMigration', () => {
+  test('writes a timestamped migration', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+    const path = await writeRemediationMigration(findings, dir, new Date('2026-01-02T03:04:05Z'));
+    expect(path).toBe(join(dir, '20260102030405_security_fixes.sql'));
+    expect(await readFile(path!, 'utf8')).toBe(buildRemediationSql(findings));
+  })
+  test('writes nothing when there is nothing to fix', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+    expect(await writeRemediationMigration(findings.slice(3), dir)).toBeUndefined();
+  })
+  test('never overwrites an existing migration', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+    const date = new Date('2026-01-02T03:04:05Z');
+    await writeRemediationMigration(findings, dir, date);
+    await expect(writeRemediationMigration(findings, dir, date)).rejects.toThrow();
+  })
+})
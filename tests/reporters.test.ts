@@ -0,0 +1,111 @@
+// =============================================================================
+// REPORTER TESTS
+// =============================================================================
+//
+// This file contains the tests for the report formats used by the CLI. They do
+// not need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { formatJson, formatJUnit, formatSarif, formatText } from '../src/reporters.js';
+import type { Finding } from '../src/index.js';
+
+const findings:Finding[] = [
+  {
+    rule: 'rls-disabled',
+    severity: 'error',
+    schema: 'api',
+    object: 'todos',
+    kind: 'table',
+    message: 'Table "api.todos" does not have RLS enabled',
+  },
+  {
+    rule: 'table-extra-grant',
+    severity: 'error',
+    schema: 'api',
+    object: 'todos',
+    kind: 'table',
+    grantee: 'reporting',
+    privilege: 'SELECT',
+    message: 'Table "api.todos" has "SELECT" granted to "reporting"',
+  },
+];
+
+describe('formatText', () => {
+  test('lists every finding with a summary', () => {
+    const text = formatText(findings);
+    expect(text).toContain('[rls-disabled] Table "api.todos" does not have RLS enabled');
+    expect(text).toContain('2 error(s), 0 warning(s), 0 info');
+  })
+  test('a clean run only prints the summary', () => {
+    expect(formatText([])).toBe('0 error(s), 0 warning(s), 0 info\n');
+  })
+})
+
+describe('formatJson', () => {
+  test('includes a summary and the findings', () => {
+    const json = JSON.parse(formatJson(findings));
+    expect(json.summary).toEqual({ errors: 2, warnings: 0, info: 0 });
+    expect(json.findings).toEqual(findings);
+  })
+})
+
+describe('formatJUnit', () => {
+  test('has one failed test case per finding, grouped by rule', () => {
+    const xml = formatJUnit(findings);
+    expect(xml).toContain('<testsuites name="supabase-security" tests="2" failures="2">');
+    expect(xml).toContain('<testsuite name="rls-disabled" tests="1" failures="1">');
+    expect(xml).toContain('<testcase classname="table-extra-grant" name="api.todos">');
+  })
+  test('warnings and info pass with the finding as output', () => {
+    const xml = formatJUnit([findings[0]!, { ...findings[1]!, severity: 'warning' }]);
+    expect(xml).toContain('<testsuites name="supabase-security" tests="2" failures="1">');
+    expect(xml).toContain('<testsuite name="table-extra-grant" tests="1" failures="0">');
+    expect(xml).toContain('<system-out>warning: [table-extra-grant] Table &quot;api.todos&quot; has &quot;SELECT&quot; granted to &quot;reporting&quot;</system-out>');
+  })
+  test('escapes XML in messages', () => {
+    const xml = formatJUnit([{ ...findings[0]!, message: '<"a" & \'b\'>' }]);
+    expect(xml).toContain('message="&lt;&quot;a&quot; &amp; &apos;b&apos;&gt;"');
+  })
+  test('a clean run has one passing test case', () => {
+    const xml = formatJUnit([]);
+    expect(xml).toContain('tests="1" failures="0"');
+    expect(xml).toContain('<testcase classname="supabase-security" name="audit"/>');
+  })
+})
+
+describe('formatSarif', () => {
+  test('findings from the database are placed on the schema setup file', () => {
+    const sarif = JSON.parse(formatSarif(findings));
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver.rules).toEqual([{ id: 'rls-disabled' }, { id: 'table-extra-grant' }]);
+    expect(run.results[1]).toEqual({
+      ruleId: 'table-extra-grant',
+      ruleIndex: 1,
+      level: 'error',
+      message: { text: 'Table "api.todos" has "SELECT" granted to "reporting"' },
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: 'supabase/schemas/00000000000000_schema setup.sql' }, region: { startLine: 1 } },
+        logicalLocations: [{ fullyQualifiedName: 'api.todos', kind: 'table' }],
+      }],
+      properties: { grantee: 'reporting', privilege: 'SELECT' },
+    });
+  })
+  test('findings in SQL files have a physical location', () => {
+    const sarif = JSON.parse(formatSarif([{
+      rule: 'lint-disable-rls',
+      severity: 'error',
+      schema: 'api',
+      object: 'todos',
+      kind: 'table',
+      message: 'RLS is disabled on table "api.todos"',
+      file: 'supabase/migrations/20250101000000_todos.sql',
+      line: 12,
+    }]));
+    expect(sarif.runs[0].results[0].locations).toEqual([{
+      physicalLocation: { artifactLocation: { uri: 'supabase/migrations/20250101000000_todos.sql' }, region: { startLine: 12 } },
+      logicalLocations: [{ fullyQualifiedName: 'api.todos', kind: 'table' }],
+    }]);
+  })
+})
@@ -0,0 +1,105 @@
+// =============================================================================
+// RULES TESTS
+// =============================================================================
+//
+// This file contains the tests for loading custom rules and for the findings of
+// the ports of the Supabase linter. They do not need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { loadRules, supabaseLinterRules, type Rule } from '../src/index.js';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+function linterRule(id:string):Rule {
+  const rule = supabaseLinterRules.find(r => r.id === id);
+  if (!rule) throw new Error(`No rule ${id}`);
+  return rule;
+}
+
+async function writeRules(content:string) {
+  const path = join(await mkdtemp(join(tmpdir(), 'rules-')), 'rules.mjs');
+  await writeFile(path, content);
+  return path;
+}
+
+describe('supabaseLinterRules', () => {
+  test('unindexed foreign keys suggest an index, and are warnings when a policy uses them', () => {
+    const rule = linterRule('unindexed-foreign-key');
+    const row = { table_name: 'Orders', constraint_name: 'orders_customer_fkey', columns: ['customer_id', 'Region'], used_by_policy: false };
+    expect(rule.map(row, 'api')).toEqual({
+      object: 'Orders',
+      kind: 'table',
+      message: 'Foreign key "orders_customer_fkey" on "api.Orders" (customer_id, Region) has no index',
+      fix: 'CREATE INDEX ON api."Orders" (customer_id, "Region");',
+    });
+    expect(rule.map({ ...row, used_by_policy: true }, 'api')).toMatchObject({
+      severity: 'warning',
+      message: 'Foreign key "orders_customer_fkey" on "api.Orders" (customer_id, Region) has no index, and a policy of the table uses it',
+    });
+  })
+  test('views on auth.users are errors when anon or authenticated can read them', () => {
+    const rule = linterRule('auth-users-exposed');
+    expect(rule.exposed).toBe(true);
+    expect(rule.map({ view_name: 'profiles', kind: 'v', roles: ['anon', 'authenticated'] }, 'api')).toEqual({
+      object: 'profiles',
+      kind: 'view',
+      message: 'View "api.profiles" exposes auth.users to "anon" and "authenticated"',
+    });
+    expect(rule.map({ view_name: 'emails', kind: 'm', roles: [] }, 'api')).toEqual({
+      severity: 'warning',
+      object: 'emails',
+      kind: 'materialized view',
+      message: 'Materialized view "api.emails" reads auth.users with its owner\'s privileges',
+    });
+  })
+  test('policies name the auth functions they call for every row', () => {
+    const rule = linterRule('auth-rls-initplan');
+    const row = {
+      table_name: 'todos',
+      policy_name: 'own_todos',
+      expression: '((user_id = auth.uid()) AND (team_id = ( SELECT auth.uid() AS uid)) AND (current_setting(\'app.tenant\'::text) = tenant)) ((auth.jwt() ->> \'role\'::text) = \'admin\'::text)',
+    };
+    expect(rule.map(row, 'api')).toEqual({
+      object: 'todos',
+      kind: 'table',
+      message: 'Policy "own_todos" on "api.todos" calls auth.uid(), current_setting(), auth.jwt() for every row; wrap them in (select ...) to call them once',
+    });
+  })
+  test('multiple permissive policies are reported per role and command', () => {
+    const rule = linterRule('multiple-permissive-policies');
+    expect(rule.map({ table_name: 'todos', role: 'authenticated', command: 'SELECT', policies: ['admins', 'owners'] }, 'api')).toEqual({
+      object: 'todos',
+      kind: 'table',
+      grantee: 'authenticated',
+      privilege: 'SELECT',
+      message: 'Table "api.todos" has 2 permissive SELECT policies for "authenticated" (admins, owners); combine them into one',
+    });
+  })
+})
+
+describe('loadRules', () => {
+  test('loads the default export of a module', async () => {
+    const path = await writeRules(`export default [{
+      id: 'no-password-columns',
+      severity: 'error',
+      query: 'SELECT 1',
+      map: row => ({ message: String(row.column_name) }),
+    }];`);
+    const [rule] = await loadRules(path);
+    expect(rule?.id).toBe('no-password-columns');
+    expect(rule?.map({ column_name: 'password' }, 'api')).toEqual({ message: 'password' });
+  })
+  test('supabase stands for the built-in rules', async () => {
+    expect(await loadRules('supabase')).toBe(supabaseLinterRules);
+  })
+  test('rejects modules without an array of rules', async () => {
+    const noDefault = await writeRules('export const rules = [];');
+    await expect(loadRules(noDefault)).rejects.toThrow(`${noDefault}: expected a default export with an array of rules`);
+    const invalid = await writeRules(`export default [{ id: 'x', severity: 'fatal', query: '', map: () => ({}) }];`);
+    await expect(loadRules(invalid)).rejects.toThrow(`${invalid}[0]: "severity" must be one of error, warning, info`);
+    const noMap = await writeRules(`export default [{ id: 'x', severity: 'error', query: '' }];`);
+    await expect(loadRules(noMap)).rejects.toThrow(`${noMap}[0]: "map" must be a function`);
+  })
+})
@@ -0,0 +1,74 @@
+// =============================================================================
+// SNAPSHOT TESTS
+// =============================================================================
+//
+// This file contains the tests for comparing security snapshots. They do not
+// need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { diffSnapshots, formatSnapshot, type SecuritySnapshot, type SnapshotObject } from '../src/index.js';
+
+const todos:SnapshotObject = {
+  schema: 'api',
+  name: 'todos',
+  kind: 'table',
+  owner: 'postgres',
+  grants: { anon: ['SELECT'], authenticated: ['DELETE', 'INSERT', 'SELECT', 'UPDATE'] },
+  rls: { enabled: true, forced: false },
+  policies: [{ name: 'own todos', command: 'ALL', permissive: true, roles: ['authenticated'], using: '(auth.uid() = user_id)', check: null }],
+};
+
+const snapshot = (...objects:SnapshotObject[]):SecuritySnapshot => ({ schemas: ['api'], objects });
+
+describe('diffSnapshots', () => {
+  test('identical snapshots have no differences', () => {
+    expect(diffSnapshots(snapshot(todos), snapshot(structuredClone(todos)))).toEqual([]);
+  })
+  test('added and removed objects are reported', () => {
+    const notes = { ...todos, name: 'notes' };
+    expect(diffSnapshots(snapshot(todos), snapshot(notes)).map(f => f.message)).toEqual([
+      'Table "api.todos" is in the snapshot but not in the database',
+      'Table "api.notes" is not in the snapshot',
+    ]);
+  })
+  test('changed grants are reported per grantee', () => {
+    const changed = { ...todos, grants: { anon: ['INSERT', 'SELECT'], authenticated: ['SELECT'] } };
+    expect(diffSnapshots(snapshot(todos), snapshot(changed))).toEqual([
+      expect.objectContaining({
+        rule: 'snapshot-drift',
+        object: 'todos',
+        grantee: 'anon',
+        privilege: 'INSERT',
+        message: 'Table "api.todos" grants INSERT to "anon", which is not in the snapshot',
+      }),
+      expect.objectContaining({
+        grantee: 'authenticated',
+        message: 'Table "api.todos" no longer grants DELETE, INSERT, UPDATE to "authenticated"',
+      }),
+    ]);
+  })
+  test('owner, RLS, policy and definer changes are reported', () => {
+    const changed:SnapshotObject = {
+      ...todos,
+      owner: 'supabase_admin',
+      rls: { enabled: false, forced: false },
+      policies: [{ ...todos.policies![0]!, using: 'true' }],
+    };
+    const invoker:SnapshotObject = { schema: 'api', name: 'count_todos()', kind: 'function', owner: 'postgres', grants: {}, securityDefiner: false };
+    expect(diffSnapshots(snapshot(todos, invoker), snapshot(changed, { ...invoker, securityDefiner: true })).map(f => f.message)).toEqual([
+      'Table "api.todos" is owned by "supabase_admin", the snapshot has "postgres"',
+      'Table "api.todos" has RLS disabled, the snapshot has it enabled',
+      'Policy "own todos" on table "api.todos" changed from "permissive ALL to authenticated using (auth.uid() = user_id) with check (none)" to "permissive ALL to authenticated using true with check (none)"',
+      'Function "api.count_todos()" is SECURITY DEFINER, the snapshot has it SECURITY INVOKER',
+    ]);
+  })
+})
+
+describe('formatSnapshot', () => {
+  test('the snapshot is written as JSON with a trailing newline', () => {
+    const text = formatSnapshot(snapshot(todos));
+    expect(text.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(text)).toEqual(snapshot(todos));
+  })
+})
@@ -0,0 +1,33 @@
+// =============================================================================
+// SQL HELPER TESTS
+// =============================================================================
+//
+// This file contains the tests for quoting and parsing SQL names. They do not
+// need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { parseSearchPath, qualify, quoteRole } from '../src/index.js';
+
+describe('quoting', () => {
+  test('names are only quoted when needed', () => {
+    expect(qualify('api', 'todos')).toBe('api.todos');
+    expect(qualify('api', 'Todos')).toBe('api."Todos"');
+    expect(qualify('api', 'user')).toBe('api."user"');
+  })
+  test('PUBLIC is not quoted as a role', () => {
+    expect(quoteRole('PUBLIC')).toBe('PUBLIC');
+  })
+})
+
+describe('parseSearchPath', () => {
+  test('splits a search_path as stored in the catalog', () => {
+    expect(parseSearchPath('api, pg_temp')).toEqual(['api', 'pg_temp']);
+    expect(parseSearchPath('"$user", public')).toEqual(['$user', 'public']);
+    expect(parseSearchPath('API, "My Schema", "a,b"')).toEqual(['api', 'My Schema', 'a,b']);
+  })
+  test('an empty search_path has no schemas', () => {
+    expect(parseSearchPath('""')).toEqual([]);
+    expect(parseSearchPath('')).toEqual([]);
+  })
+})
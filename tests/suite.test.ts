@@ -0,0 +1,79 @@
+// =============================================================================
+// SUITE TESTS
+// =============================================================================
+//
+// This file contains the tests for planning the itemized security suite from
+// the findings of auditZones. They do not need a database.
+// =============================================================================
+
+import { test, describe, expect } from 'vitest';
+import { defaultZoneConfig, planSecuritySuite, type Finding, type Rule, type SuiteInventory } from '../src/index.js';
+
+const inventory:SuiteInventory = {
+  objects: [
+    { schema: 'api', name: 'items', kind: 'table', label: 'Table' },
+    { schema: 'api', name: 'items_view', kind: 'view', label: 'View' },
+    { schema: 'private', name: 'rotate_keys', kind: 'function', label: 'Function' },
+  ],
+  roles: ['anon', 'reporting'],
+};
+
+const finding = (fields:Omit<Finding, 'severity' | 'message'>):Finding => ({ severity: 'error', message: fields.rule, ...fields });
+
+describe('planSecuritySuite', () => {
+  test('every object gets one test per rule that applies to it', () => {
+    const paths = planSecuritySuite(defaultZoneConfig, inventory, []).map(t => t.path.join(' > '));
+    expect(paths).toEqual([
+      'zone "api" > has the default privileges of the zone',
+      'zone "api" > table "api.items" > has RLS enabled',
+      'zone "api" > table "api.items" > has RLS policies that restrict access',
+      'zone "api" > table "api.items" > grants nothing outside the zone',
+      'zone "api" > table "api.items" > grants the zone privileges',
+      'zone "api" > table "api.items" > is owned by the zone owner',
+      'zone "api" > table "api.items" > is not published unsafely',
+      'zone "api" > view "api.items_view" > does not bypass RLS',
+      'zone "api" > view "api.items_view" > grants nothing outside the zone',
+      'zone "api" > view "api.items_view" > grants the zone privileges',
+      'zone "api" > view "api.items_view" > is owned by the zone owner',
+      'zone "private" > has the default privileges of the zone',
+      'zone "private" > function "private.rotate_keys" > pins a safe search_path if SECURITY DEFINER',
+      'zone "private" > function "private.rotate_keys" > grants nothing outside the zone',
+      'zone "private" > function "private.rotate_keys" > grants the zone privileges',
+      'zone "private" > function "private.rotate_keys" > is owned by the zone owner',
+      'role "anon" > has USAGE on exactly the zones it belongs to',
+      'role "anon" > cannot create objects in the zones',
+      'role "anon" > has a valid search_path',
+      'role "reporting" > has USAGE on exactly the zones it belongs to',
+      'role "reporting" > cannot create objects in the zones',
+      'has no other findings',
+    ]);
+  })
+  test('findings fail the test of their object and rule only', () => {
+    const rls = finding({ rule: 'rls-disabled', schema: 'api', object: 'items', kind: 'table' });
+    const column = finding({ rule: 'column-extra-grant', schema: 'api', object: 'items_view.secret', kind: 'column', grantee: 'reporting' });
+    const usage = finding({ rule: 'schema-usage-extra', schema: 'private', object: 'private', kind: 'schema', grantee: 'reporting' });
+    const sequence = finding({ rule: 'sequence-extra-grant', schema: 'api', object: 'items_id_seq', kind: 'sequence' });
+    const tests = planSecuritySuite(defaultZoneConfig, inventory, [rls, column, usage, sequence]);
+    const failing = tests.filter(t => t.findings.length).map(t => [t.path.join(' > '), t.findings]);
+    expect(failing).toEqual([
+      ['zone "api" > table "api.items" > has RLS enabled', [rls]],
+      ['zone "api" > view "api.items_view" > grants nothing outside the zone', [column]],
+      ['role "reporting" > has USAGE on exactly the zones it belongs to', [usage]],
+      ['has no other findings', [sequence]],
+    ]);
+  })
+  test('custom rules get one test per zone', () => {
+    const rule = (id:string, exposed?:boolean):Rule => ({ id, severity: 'error', ...(exposed ? { exposed } : {}), query: '', map: () => ({ message: id }) });
+    const rules = [rule('updated-at-trigger'), rule('no-password-columns', true)];
+    const password = finding({ rule: 'no-password-columns', schema: 'api', object: 'items', kind: 'table' });
+    const tests = planSecuritySuite(defaultZoneConfig, { objects: [], roles: [] }, [password], rules);
+    expect(tests.map(t => [t.path.join(' > '), t.findings])).toEqual([
+      ['zone "api" > has the default privileges of the zone', []],
+      ['zone "api" > follows the rule "updated-at-trigger"', []],
+      ['zone "api" > follows the rule "no-password-columns"', [password]],
+      ['zone "private" > has the default privileges of the zone', []],
+      ['zone "private" > follows the rule "updated-at-trigger"', []],
+      ['has no other findings', []],
+    ]);
+  })
+})